@@ -1,5 +1,7 @@
 import { type HTMLPropsElementConstructor, HTMLPropsMixin } from '@html-props/core';
 
+export { Portal, PORTAL_ATTRIBUTE, PORTAL_EVENTS } from './portal.ts';
+
 type BuiltIn<T extends new (...args: any[]) => any> = HTMLPropsElementConstructor<T, {}> & Pick<T, keyof T>;
 
 // Document Metadata (Shadow DOM relevant)
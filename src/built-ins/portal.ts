@@ -0,0 +1,123 @@
+import {
+  ContextRequestEvent,
+  type HTMLPropsElementConstructor,
+  HTMLPropsMixin,
+  type InferConstructorProps,
+  type InferProps,
+  PROPS_CONTROLLER,
+  PropsController,
+} from '@html-props/core';
+
+/** Marks the container a Portal renders its content into */
+export const PORTAL_ATTRIBUTE = 'data-html-props-portal';
+
+/** Bubbling events that are forwarded from the portal content to the Portal element by default */
+export const PORTAL_EVENTS: string[] = [
+  'click',
+  'dblclick',
+  'input',
+  'change',
+  'submit',
+  'keydown',
+  'keyup',
+  'focusin',
+  'focusout',
+  'pointerdown',
+  'pointerup',
+  'context-request',
+];
+
+const config: {
+  target: { default: Element | string | null; type: ObjectConstructor };
+  events: { default: string[]; type: ArrayConstructor };
+} = {
+  target: { default: null, type: Object },
+  events: { default: PORTAL_EVENTS, type: Array },
+};
+
+const PortalBase:
+  & HTMLPropsElementConstructor<
+    typeof HTMLElement,
+    InferConstructorProps<typeof config>,
+    InferProps<typeof config>
+  >
+  & Pick<typeof HTMLElement, keyof typeof HTMLElement> = HTMLPropsMixin(HTMLElement, config);
+
+/**
+ * Renders its content into another part of the document (`document.body` by default), e.g. to escape
+ * `overflow: hidden` and stacking contexts. The content still belongs to the component that renders the
+ * Portal: it is reconciled on every update, removed when the Portal disconnects, and bubbling events,
+ * context requests and render errors are passed back to the Portal element.
+ *
+ * @example
+ * ```ts
+ * render() {
+ *   return new Div({
+ *     content: [
+ *       new Button({ textContent: 'Open', onclick: () => (this.open = true) }),
+ *       this.open ? new Portal({ content: new Dialog({ onclose: () => (this.open = false) }) }) : null,
+ *     ],
+ *   });
+ * }
+ * ```
+ */
+export class Portal extends PortalBase {
+  /** Element in the target that holds the portal content */
+  readonly container: HTMLElement;
+
+  constructor(props?: ConstructorParameters<typeof PortalBase>[0]) {
+    super(props);
+    this.container = document.createElement('div');
+    this.container.setAttribute(PORTAL_ATTRIBUTE, '');
+    this.container.style.display = 'contents';
+    (this as unknown as { [PROPS_CONTROLLER]: PropsController })[PROPS_CONTROLLER].contentRoot = this.container;
+    PropsController.setLogicalParent(this.container, this);
+
+    for (const type of this.events) {
+      this.container.addEventListener(type, (event) => this.forwardEvent(event));
+    }
+  }
+
+  override connectedCallback() {
+    this.mount();
+    super.connectedCallback();
+  }
+
+  override disconnectedCallback() {
+    super.disconnectedCallback();
+    this.container.remove();
+  }
+
+  updated(changed: Map<string, unknown>) {
+    if (changed.has('target') && this.isConnected) this.mount();
+  }
+
+  private mount() {
+    const target = this.target as Element | string | null;
+    const parent = (typeof target === 'string' ? document.querySelector(target) : target) ?? document.body;
+    if (this.container.parentNode !== parent) parent.appendChild(this.container);
+  }
+
+  /**
+   * Re-dispatch an event from the portal content on the Portal element, so it bubbles through the owner's tree
+   * instead of the target's. Every ancestor sees the event once.
+   */
+  private forwardEvent(event: Event) {
+    if (!event.bubbles) return;
+    event.stopPropagation();
+
+    let forwarded: Event;
+    if (event.type === 'context-request') {
+      const { context, contextTarget, callback, subscribe } = event as Event & Record<string, any>;
+      forwarded = new ContextRequestEvent(context, contextTarget, callback, subscribe);
+    } else {
+      // Event constructors read their init dictionary from the original event's properties
+      const EventConstructor = event.constructor as new (type: string, init: EventInit) => Event;
+      forwarded = new EventConstructor(event.type, event);
+    }
+
+    if (!this.dispatchEvent(forwarded)) event.preventDefault();
+  }
+}
+
+Portal.define('html-portal');
@@ -191,9 +191,10 @@ Deno.test({
       assertEquals(initialState.textContent, 'Clicks: 5');
 
       // Update prop and check reactivity
-      const afterUpdate = await ctx.page.evaluate(() => {
+      const afterUpdate = await ctx.page.evaluate(async () => {
         const btn = (window as any).testBtn as any;
         btn.count = 6;
+        await btn.updateComplete;
         return {
           textContent: btn.textContent,
         };
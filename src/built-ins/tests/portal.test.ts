@@ -0,0 +1,183 @@
+/**
+ * Portal Tests (Playwright)
+ *
+ * Tests rendering content outside the host subtree with Portal.
+ *
+ * @module
+ */
+
+import { assertEquals } from '@std/assert';
+import { loadTestPage, setupBrowser, teardownBrowser, TEST_OPTIONS, type TestContext } from '../../test-utils/mod.ts';
+
+let ctx: TestContext;
+
+Deno.test({
+  name: 'Portal Tests',
+  ...TEST_OPTIONS,
+
+  async fn(t) {
+    ctx = await setupBrowser();
+
+    await t.step('renders content into document.body and reconciles it with the owner', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { Portal } from "./src/built-ins/mod.ts";
+
+          class ToastHost extends HTMLPropsMixin(HTMLElement, {
+            open: prop(true),
+            message: prop("Saved"),
+          }) {
+            render() {
+              return new Div({
+                style: { overflow: "hidden" },
+                content: this.open ? new Portal({ content: new Span({ className: "toast", textContent: this.message }) }) : [],
+              });
+            }
+          }
+          customElements.define("toast-host", ToastHost);
+
+          const el = new ToastHost() as any;
+          document.body.appendChild(el);
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = (window as any).el;
+        const toast = () => document.querySelector('.toast');
+        const first = toast()!;
+        const initial = {
+          inHost: el.contains(first),
+          parent: first.parentElement!.parentElement === document.body,
+        };
+
+        el.message = 'Saved again';
+        await el.updateComplete;
+        const updated = { text: toast()!.textContent, same: toast() === first };
+
+        el.open = false;
+        await el.updateComplete;
+        const closed = toast();
+
+        el.open = true;
+        await el.updateComplete;
+        el.remove();
+
+        return {
+          initial,
+          updated,
+          closed,
+          afterDisconnect: toast(),
+          containers: document.querySelectorAll('[data-html-props-portal]').length,
+        };
+      });
+
+      assertEquals(result.initial, { inHost: false, parent: true });
+      assertEquals(result.updated, { text: 'Saved again', same: true });
+      assertEquals(result.closed, null);
+      assertEquals(result.afterDisconnect, null);
+      assertEquals(result.containers, 0);
+    });
+
+    await t.step('passes events, context requests and errors back to the owner', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { createContext } from "./src/core/mod.ts";
+          import { Portal } from "./src/built-ins/mod.ts";
+
+          const LabelContext = createContext<string>(Symbol("label"));
+
+          class ContextLabel extends HTMLPropsMixin(HTMLElement) {
+            label = this.consume(LabelContext);
+
+            render() {
+              return new Button({ textContent: this.label() ?? "none" });
+            }
+          }
+          customElements.define("context-label", ContextLabel);
+
+          class Broken extends HTMLPropsMixin(HTMLElement) {
+            render() {
+              throw new Error("Broken in portal");
+            }
+          }
+          customElements.define("portal-broken", Broken);
+
+          class Menu extends HTMLPropsMixin(HTMLElement, {
+            broken: prop(false),
+          }) {
+            constructor(props?: any) {
+              super(props);
+              this.provide(LabelContext, "Delete");
+            }
+
+            renderError(error: Error) {
+              return new Span({ textContent: error.message });
+            }
+
+            render() {
+              return new Portal({ content: this.broken ? new Broken() : new ContextLabel() });
+            }
+          }
+          customElements.define("portal-menu", Menu);
+
+          const el = new Menu() as any;
+          const events: string[] = [];
+          el.addEventListener("click", (e: Event) => events.push(\`menu:\${(e.target as Element).localName}\`));
+          document.addEventListener("click", () => events.push("document"));
+          document.body.appendChild(el);
+          (window as any).el = el;
+          (window as any).events = events;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const { el, events } = window as any;
+        const button = document.querySelector('[data-html-props-portal] button') as HTMLButtonElement;
+        const label = button.textContent;
+        button.click();
+
+        el.broken = true;
+        await el.updateComplete;
+        await el.updateComplete;
+
+        return { label, events, fallback: el.textContent };
+      });
+
+      assertEquals(result.label, 'Delete');
+      assertEquals(result.events, ['menu:html-portal', 'document']);
+      assertEquals(result.fallback, 'Broken in portal');
+    });
+
+    await t.step('renders into a target element or selector and moves when the target changes', async () => {
+      await loadTestPage(ctx.page, {
+        body: '<div id="overlay"></div><div id="top-layer"></div>',
+        code: `
+          import { Portal } from "./src/built-ins/mod.ts";
+
+          const portal = new Portal({ target: "#overlay", content: new Span({ textContent: "Tooltip" }) }) as any;
+          document.body.appendChild(portal);
+          (window as any).portal = portal;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const portal = (window as any).portal;
+        const initial = document.querySelector('#overlay')!.textContent;
+
+        portal.target = document.querySelector('#top-layer');
+        await portal.updateComplete;
+
+        return {
+          initial,
+          overlay: document.querySelector('#overlay')!.textContent,
+          topLayer: document.querySelector('#top-layer')!.textContent,
+        };
+      });
+
+      assertEquals(result, { initial: 'Tooltip', overlay: '', topLayer: 'Tooltip' });
+    });
+
+    await teardownBrowser(ctx);
+  },
+});
@@ -0,0 +1,79 @@
+/**
+ * Reconciliation Benchmarks (Playwright)
+ *
+ * Measures keyed list updates of 1k and 10k rows in a real browser.
+ * Run with `deno task bench`.
+ *
+ * @module
+ */
+
+import { loadTestPage, setupBrowser, teardownBrowser } from '../../test-utils/mod.ts';
+
+const ctx = await setupBrowser();
+globalThis.addEventListener('unload', () => teardownBrowser(ctx));
+
+await loadTestPage(ctx.page, {
+  code: `
+    import { repeat } from "./src/core/mod.ts";
+
+    interface Row {
+      id: number;
+      label: string;
+    }
+
+    class BenchTable extends HTMLPropsMixin(HTMLElement, {
+      rows: prop<Row[]>([]),
+    }) {
+      render() {
+        return new Ul({
+          content: repeat(this.rows, (row) => row.id, (row) => new Li({ textContent: row.label })),
+        });
+      }
+    }
+    customElements.define("bench-table", BenchTable);
+
+    const table = new BenchTable() as any;
+    document.body.appendChild(table);
+
+    let nextId = 0;
+    const createRows = (count: number) =>
+      Array.from({ length: count }, () => ({ id: nextId, label: "row " + nextId++ }));
+
+    const update = async (rows: Row[]) => {
+      table.rows = rows;
+      await table.updateComplete;
+    };
+
+    (window as any).bench = {
+      reset: (count: number) => update(createRows(count)),
+      append: () => update([...table.rows, ...createRows(1000)]),
+      swap: () => {
+        const rows = [...table.rows];
+        const last = rows.length - 2;
+        [rows[1], rows[last]] = [rows[last], rows[1]];
+        return update(rows);
+      },
+      reverse: () => update([...table.rows].reverse()),
+      remove: () => update(table.rows.filter((_: Row, index: number) => index !== table.rows.length >> 1)),
+    };
+  `,
+});
+
+const OPERATIONS = ['append', 'swap', 'reverse', 'remove'] as const;
+
+for (const count of [1000, 10000]) {
+  for (const operation of OPERATIONS) {
+    Deno.bench({
+      name: `${operation} (${count} rows)`,
+      group: `${count} rows`,
+      n: count > 1000 ? 10 : 50,
+      warmup: 2,
+      async fn(b) {
+        await ctx.page.evaluate((count) => (window as any).bench.reset(count), count);
+        b.start();
+        await ctx.page.evaluate((operation) => (window as any).bench[operation](), operation);
+        b.end();
+      },
+    });
+  }
+}
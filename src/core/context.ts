@@ -0,0 +1,58 @@
+/**
+ * Context keys and events following the community context protocol
+ * (https://github.com/webcomponents-cg/community-protocols/blob/main/proposals/context.md).
+ * Requests are `context-request` events that bubble and cross shadow roots, so providers and
+ * consumers interoperate with other implementations such as `@lit/context`.
+ */
+
+/**
+ * A context key. At runtime this is the key passed to createContext(); the value type only
+ * exists for type checking. Contexts match by identity.
+ */
+export type Context<T> = unknown & { readonly __context__: T };
+
+/** The value type of a context */
+export type ContextType<C> = C extends Context<infer T> ? T : never;
+
+/**
+ * Called by a provider with the current value.
+ * Subscribed consumers are called again on every change and receive a function to unsubscribe.
+ */
+export type ContextCallback<T> = (value: T, unsubscribe?: () => void) => void;
+
+/**
+ * Create a context to pass values down the element tree without prop drilling.
+ * The key is returned as-is, so any value usable as a context by other protocol
+ * implementations works here too.
+ *
+ * @example
+ * ```ts
+ * export const ThemeContext = createContext<'light' | 'dark'>(Symbol('theme'));
+ * ```
+ */
+export function createContext<T>(key: unknown): Context<T> {
+  return key as Context<T>;
+}
+
+/**
+ * Dispatched by consumers to ask the nearest ancestor provider for a context value.
+ */
+export class ContextRequestEvent<C extends Context<unknown>> extends Event {
+  readonly context: C;
+  readonly contextTarget: Element;
+  readonly callback: ContextCallback<ContextType<C>>;
+  readonly subscribe?: boolean;
+
+  constructor(
+    context: C,
+    contextTarget: Element,
+    callback: ContextCallback<ContextType<C>>,
+    subscribe?: boolean,
+  ) {
+    super('context-request', { bubbles: true, composed: true });
+    this.context = context;
+    this.contextTarget = contextTarget;
+    this.callback = callback;
+    this.subscribe = subscribe;
+  }
+}
@@ -1,15 +1,263 @@
-import { batch, effect, type Signal, signal } from '@html-props/signals';
-import type { HTMLElementLike, PropsConfig } from './types.ts';
+import {
+  batch,
+  effect,
+  isSignal,
+  observeReads,
+  type ReadonlySignal,
+  type Signal,
+  signal,
+  untracked,
+} from '@html-props/signals';
+import { DEV, devError, devWarn, isDevMode } from './dev.ts';
+import { booleanConverter, dateConverter, jsonConverter, numberConverter, stringConverter } from './converters.ts';
+import type {
+  AttributeConverter,
+  AttributeMap,
+  Bindable,
+  BindableStyle,
+  BindSignal,
+  ClassNames,
+  ComputedConfig,
+  EventListenerMap,
+  FormAssociatedConfig,
+  FormValue,
+  HTMLElementLike,
+  PropConfig,
+  PropsConfig,
+  RenderOptions,
+  TransitionConfig,
+  TransitionEffect,
+} from './types.ts';
+import { isStyleElement } from './styles.ts';
+import { type Context, type ContextCallback, ContextRequestEvent } from './context.ts';
+import { validateProp } from './validation.ts';
+import { type DevtoolsDependency, type DevtoolsHook, getDevtoolsHook, type ReconcileStats } from './devtools.ts';
+import { endReconcile, isProfiling, recordReconcileCounts, recordRender, startReconcile } from './profiling.ts';
 
 // Unique symbols to avoid any property name conflicts
 export const PROPS_CONTROLLER = Symbol.for('html-props:controller');
 export const HTML_PROPS_MIXIN = Symbol.for('html-props:mixin');
 
+/** Attribute marking server-rendered components whose first render adopts the existing DOM */
+export const HYDRATE_ATTRIBUTE = 'data-hydrate';
+
+/** Differences collected while hydrating (dev mode only) */
+let hydrationMismatches: string[] | null = null;
+
+/** Live form control properties that attributes do not reflect once the user interacts */
+const FORM_STATE_PROPS = new Set(['value', 'checked', 'selected', 'indeterminate']);
+
+/** Plain form controls whose state render() has set, kept in sync like controlled inputs */
+const controlledNodes = new WeakSet<Element>();
+
+/** Nodes playing their exit transition, removed once it finishes unless they are rendered again */
+const exitingNodes = new WeakMap<Node, { animation: Animation | null; cancelled: boolean }>();
+
+/** Timing of transitions without their own options */
+const DEFAULT_TRANSITION_OPTIONS: KeyframeAnimationOptions = { duration: 200, easing: 'ease' };
+
+/** Controllers with a pending update, flushed together in a microtask */
+const updateQueue = new Set<PropsController>();
+let flushScheduled = false;
+
+function scheduleFlush() {
+  if (flushScheduled) return;
+  flushScheduled = true;
+  queueMicrotask(() => {
+    flushScheduled = false;
+    flushUpdates();
+  });
+}
+
+function flushUpdates() {
+  // Updates may queue further updates (e.g. nested components), so drain until empty
+  const errors: unknown[] = [];
+  while (updateQueue.size > 0) {
+    const [controller] = updateQueue;
+    try {
+      controller!.performUpdate();
+    } catch (error) {
+      errors.push(error);
+    }
+  }
+  // Render errors without an error boundary propagate once the other components have updated
+  if (errors.length === 1) throw errors[0];
+  if (errors.length > 1) throw new AggregateError(errors, 'Multiple components failed to update');
+}
+
+/**
+ * Synchronously run all pending component updates.
+ * Escape hatch for tests and code that needs to measure the DOM right after changing props.
+ *
+ * @param fn - Optional callback run before flushing (e.g. to set props)
+ *
+ * @example
+ * ```ts
+ * flushSync(() => {
+ *   el.count = 5;
+ * });
+ * el.textContent; // Already updated
+ * ```
+ */
+export function flushSync(fn?: () => void): void {
+  fn?.();
+  flushUpdates();
+}
+
+/**
+ * Wait until the components in a subtree have finished updating, including async render() results.
+ * Components created by resolved content are waited for as well, so this works as a boundary
+ * for a whole tree of async components. Shadow roots are included.
+ *
+ * @example
+ * ```ts
+ * document.body.append(page);
+ * await allRendered(page);
+ * ```
+ */
+export async function allRendered(root: Node | Node[]): Promise<void> {
+  const roots = Array.isArray(root) ? root : [root];
+  while (true) {
+    const pending: Promise<void>[] = [];
+    for (const node of roots) collectUpdates(node, pending);
+    if (pending.length === 0) return;
+    await Promise.all(pending);
+  }
+}
+
+function collectUpdates(node: Node, pending: Promise<void>[]) {
+  const controller = (node as unknown as ManagedNode)[PROPS_CONTROLLER];
+  if (controller?.isUpdating) {
+    pending.push(controller.updateComplete);
+  }
+  const shadowRoot = (node as Element).shadowRoot;
+  if (shadowRoot) collectUpdates(shadowRoot, pending);
+  for (const child of Array.from(node.childNodes)) collectUpdates(child, pending);
+}
+
+/**
+ * Start a transition effect. Resolves once it has finished, or immediately without the Web Animations API.
+ */
+function runTransition(
+  element: Element,
+  effect: TransitionEffect,
+  options: KeyframeAnimationOptions | undefined,
+): { animation: Animation | null; finished: Promise<unknown> } {
+  if (typeof effect === 'function') {
+    const result = effect(element);
+    if (result && 'finished' in result) return { animation: result, finished: result.finished };
+    return { animation: null, finished: Promise.resolve(result) };
+  }
+  if (typeof element.animate !== 'function') {
+    return { animation: null, finished: Promise.resolve() };
+  }
+  const animation = element.animate(effect, { ...DEFAULT_TRANSITION_OPTIONS, ...options });
+  return { animation, finished: animation.finished };
+}
+
+/**
+ * Assign a node to a named slot. Text cannot be slotted by name, so it is wrapped in a <span>.
+ */
+function assignSlot(node: Node, name: string): Node {
+  if (node.nodeType !== 1) {
+    const span = document.createElement('span');
+    span.slot = name;
+    span.append(node);
+    return span;
+  }
+  const element = node as Element;
+  if (element.slot !== name) element.slot = name;
+  return element;
+}
+
+/** Value of a form control for the `bind` prop: checked state, number, selected values or text */
+function readBoundValue(element: Element): unknown {
+  if (element.localName === 'select') {
+    const select = element as HTMLSelectElement;
+    return select.multiple ? Array.from(select.selectedOptions, (option) => option.value) : select.value;
+  }
+  const input = element as HTMLInputElement;
+  switch (input.type) {
+    case 'checkbox':
+      return input.checked;
+    case 'radio':
+      return input.checked ? input.value : null;
+    case 'number':
+    case 'range':
+      return input.value === '' ? null : input.valueAsNumber;
+    default:
+      return input.value;
+  }
+}
+
+function writeBoundValue(element: Element, value: unknown) {
+  const input = element as HTMLInputElement;
+  if (element.localName === 'input' && (input.type === 'checkbox' || input.type === 'radio')) {
+    // Radio buttons are checked when the signal holds their value
+    const checked = input.type === 'checkbox' ? !!value : value != null && String(value) === input.value;
+    if (input.checked !== checked) input.checked = checked;
+    return;
+  }
+
+  const select = element as HTMLSelectElement;
+  if (element.localName === 'select' && select.multiple) {
+    const values = Array.isArray(value) ? value.map(String) : [];
+    for (const option of Array.from(select.options)) {
+      const selected = values.includes(option.value);
+      if (option.selected !== selected) option.selected = selected;
+    }
+    return;
+  }
+
+  // Unchanged values are not written, which keeps the caret and partial input like "1." in number fields
+  if (Object.is(readBoundValue(element), value)) return;
+  input.value = value == null ? '' : String(value);
+}
+
+/** Event that changes the value of a form control with the `bind` prop */
+function boundValueEvent(element: Element): 'input' | 'change' {
+  const type = (element as HTMLInputElement).type;
+  return element.localName === 'select' || type === 'checkbox' || type === 'radio' ? 'change' : 'input';
+}
+
+function isPromiseLike<T>(value: unknown): value is PromiseLike<T> {
+  return value != null && typeof (value as PromiseLike<T>).then === 'function';
+}
+
+/** Keys for nodes without a controller, e.g. text nodes returned from repeat() templates */
+const nodeKeys = new WeakMap<object, string | number>();
+
+/** Owners of nodes rendered outside their subtree, e.g. Portal containers */
+const logicalParents = new WeakMap<object, Node>();
+
+/** Component that handles render errors of itself and its descendants */
+interface ErrorBoundaryHost {
+  errorCallback?(error: unknown): void;
+  renderError?(error: unknown): Node | Node[] | null;
+}
+
+/** Listener added through the `on` prop */
+interface AppliedListener {
+  handler: (event: Event) => void;
+  options: boolean | AddEventListenerOptions | undefined;
+  wrapper: EventListener;
+}
+
+/** A signal or function bound to a single DOM property */
+interface PropBinding {
+  source: () => unknown;
+  apply: (value: unknown) => void;
+  /** Disposes the effect that applies the value, null while the host is disconnected */
+  dispose: (() => void) | null;
+}
+
 /** Node that may have a PropsController attached */
 interface ManagedNode {
   [PROPS_CONTROLLER]?: PropsController;
   nodeType: number;
+  nodeName: string;
   nodeValue: string | null;
+  textContent: string | null;
   dataset?: DOMStringMap;
   id?: string;
   localName?: string;
@@ -24,15 +272,64 @@ interface ManagedNode {
   remove?(): void;
 }
 
+/**
+ * Indexes of unmatched `from` nodes that may match, in document order.
+ * Matched indexes are skipped lazily; `start` moves past them so repeated lookups stay linear.
+ */
+interface Candidates {
+  indexes: number[];
+  start: number;
+}
+
+function addCandidate<K>(map: Map<K, Candidates>, key: K, index: number) {
+  const candidates = map.get(key);
+  if (candidates) candidates.indexes.push(index);
+  else map.set(key, { indexes: [index], start: 0 });
+}
+
+/** Update lifecycle hooks implemented by components */
+interface UpdateHooksHost {
+  willUpdate?(changed: Map<string, unknown>): void;
+  updated?(changed: Map<string, unknown>): void;
+  firstUpdated?(changed: Map<string, unknown>): void;
+}
+
+/** Component whose render() may return a Promise, showing fallback() until it resolves */
+interface AsyncRenderHost {
+  render?(options: RenderOptions): Node | Node[] | null | PromiseLike<Node | Node[] | null>;
+  fallback?(): Node | Node[] | null;
+}
+
+/** A context value provided by this host and the consumers subscribed to it */
+interface ProvidedContext {
+  value: Signal<unknown>;
+  subscribers: Map<ContextCallback<unknown>, () => void>;
+  /** Stops notifying subscribers, set while the host is connected */
+  dispose?: () => void;
+}
+
+/** A context requested by this host, re-requested on every connect */
+interface ConsumedContext {
+  context: Context<unknown>;
+  value: Signal<unknown>;
+  unsubscribe?: () => void;
+}
+
 /** Props passed to constructor or applyProps */
 interface Props {
   ref?: ((el: HTMLElementLike | null) => void) | {
     current: HTMLElementLike | null;
   };
-  style?: Partial<CSSStyleDeclaration> | string;
+  style?: BindableStyle | string;
+  classes?: ClassNames;
+  attrs?: AttributeMap;
   dataset?: Record<string, string | undefined>;
-  innerHTML?: string;
-  textContent?: string;
+  key?: string | number;
+  transition?: TransitionConfig;
+  bind?: BindSignal;
+  on?: EventListenerMap;
+  innerHTML?: Bindable<string>;
+  textContent?: Bindable<string | number | null>;
   children?: Node | Node[];
   content?: Node | Node[];
   [key: string]: unknown;
@@ -50,12 +347,64 @@ export class PropsController {
   private host: HTMLElementLike;
   private propsConfig: PropsConfig | null;
   private customProps: Record<string, Signal<unknown>> = {};
+  /** Readers of computed props, their signal is created on the first read */
+  private computedProps: Record<string, () => unknown> = {};
+  /** Disposers of the computed prop effects created while connected */
+  private computedDisposers: (() => void)[] = [];
   private defaultProps: Record<string, unknown> = {};
   private updateScheduled = false;
+  private updatePending = false;
+  private updatePromise: Promise<void> | null = null;
+  private resolveUpdate: (() => void) | null = null;
+  private renderDispose: (() => void) | null = null;
   private connected = false;
   private eventListeners: Map<string, EventListener> = new Map();
   private appliedStyleKeys: Set<string> = new Set();
+  private appliedClasses: Set<string> = new Set();
+  private appliedAttrs: Set<string> = new Set();
+  private appliedDatasetKeys: Set<string> = new Set();
+  private appliedListeners: Map<string, AppliedListener> = new Map();
+  /** Signals and functions bound to DOM properties, by property (e.g. `prop:disabled`, `style:width`) */
+  private bindings: Map<string, PropBinding> = new Map();
+  private hydrating = false;
+  private reflecting = false;
+  /** Error caught as an error boundary, rendered with renderError() on the next update */
+  private caughtError: { error: unknown } | null = null;
+  private providedContexts: Map<unknown, ProvidedContext> = new Map();
+  private consumedContexts: ConsumedContext[] = [];
+  /** Custom prop values at the last completed update, compared to find changed props */
+  private updatedValues: Map<string, unknown> = new Map();
+  /** Changed props of the last render, passed to firstUpdated() and updated() once it is complete */
+  private renderedChanges: Map<string, unknown> | null = null;
+  private hasUpdated = false;
+  /** Aborts the in-flight async render() when a newer render starts or the host disconnects */
+  private renderAbort: AbortController | null = null;
+  /** Settles once the in-flight async render() has been reconciled */
+  private pendingRender: Promise<void> | null = null;
+  /** Changed props of renders still waiting for an async render() result */
+  private pendingChanges: Map<string, unknown> | null = null;
+  /** Form association options from the `formAssociated` config */
+  private formConfig: FormAssociatedConfig | null = null;
+  /** Signal from the `bind` prop, kept in sync with the form control's value */
+  private boundSignal: BindSignal | null = null;
+  private boundListeners = false;
+  /** Whether an IME composition is in progress, the bound signal is only updated once it ends */
+  private composing = false;
+  /** Form value prop at the first connect, restored by form reset */
+  private formDefaultValue: { value: unknown } | null = null;
+  /** ElementInternals of form-associated components */
+  internals: ElementInternals | null = null;
+  /** Whether willUpdate(), updated() and firstUpdated() are called. Off for bases with their own update cycle (e.g. Lit) */
+  updateHooks = true;
   props: Props = {};
+  /** Named slots from the `slots` config, filled from the props of the same name */
+  slotNames: readonly string[] = [];
+  /** Element that receives light DOM content instead of the host (used by Portal) */
+  contentRoot: HTMLElementLike | null = null;
+  /** Reconciliation key from the `key` prop or repeat(). Never rendered as an attribute. */
+  key: string | number | null = null;
+  /** Enter, exit and move animations from the `transition` prop, played by the parent's reconciliation */
+  transition: TransitionConfig | null = null;
 
   constructor(
     host: HTMLElementLike,
@@ -65,9 +414,25 @@ export class PropsController {
     this.host = host;
     this.propsConfig = propsConfig;
     this.props = props;
+    this.key = props.key ?? null;
+    this.transition = props.transition ?? null;
+    if (Array.isArray(propsConfig.slots)) this.slotNames = propsConfig.slots;
+
+    if (propsConfig.formAssociated) {
+      this.formConfig = propsConfig.formAssociated === true ? {} : propsConfig.formAssociated;
+      this.internals = (host as unknown as HTMLElement).attachInternals();
+    }
 
     for (const [key, value] of Object.entries(propsConfig)) {
-      if (this.isCustomProp(key)) {
+      if (PropsController.isComputedConfig(value)) {
+        this.computedProps[key] = this.createComputedProp(value);
+        Object.defineProperty(host, key, {
+          get: this.computedProps[key],
+          set: () => devWarn(`Cannot set computed prop "${key}" on <${host.localName}>`),
+          enumerable: true,
+          configurable: true,
+        });
+      } else if (this.isCustomProp(key)) {
         // Use 'in' check to preserve null as valid default
         const defaultValue = 'default' in value ? value.default : undefined;
         this.customProps[key] = signal(defaultValue);
@@ -76,6 +441,7 @@ export class PropsController {
           set: (v) => {
             const oldValue = this.customProps[key]();
             if (oldValue !== v) {
+              if (DEV) this.checkProp(key, v);
               this.customProps[key].set(v);
               // Dispatch event when non-function value changes
               if (value.event && typeof v !== 'function') {
@@ -94,6 +460,7 @@ export class PropsController {
     // Apply constructor props to custom props (safe without DOM manipulation)
     for (const [key, value] of Object.entries(props)) {
       if (this.isCustomProp(key) && this.customProps[key]) {
+        if (DEV) this.checkProp(key, value);
         this.customProps[key].set(value);
       }
     }
@@ -101,6 +468,8 @@ export class PropsController {
     // Merge defaultProps with constructor props and apply
     const mergedProps = this.merge(this.defaultProps, props) as Props;
     this.applyProps(host, mergedProps);
+
+    if (DEV) getDevtoolsHook()?.create?.(host as unknown as HTMLElement, this.getPropValues());
   }
 
   merge(
@@ -134,9 +503,38 @@ export class PropsController {
     }, {});
   }
 
+  /**
+   * Check if a config entry is a computed prop, created with computed().
+   */
+  static isComputedConfig(config: unknown): config is ComputedConfig {
+    return !!config && typeof config === 'object' && typeof (config as ComputedConfig).computed === 'function';
+  }
+
+  /**
+   * Create the reader of a computed prop. While connected, its value is computed on the first read and kept
+   * in a signal, which an effect updates when the props read by the computation change. The effect is
+   * disposed on disconnect; reads while disconnected compute the value without memoizing it.
+   */
+  private createComputedProp(config: ComputedConfig): () => unknown {
+    let value: Signal<unknown> | null = null;
+    return () => {
+      if (value) return value();
+      if (!this.connected) return config.computed(this.host);
+
+      const computedValue = signal<unknown>(undefined);
+      value = computedValue;
+      const dispose = effect(() => computedValue.set(config.computed(this.host)));
+      this.computedDisposers.push(() => {
+        dispose();
+        value = null;
+      });
+      return computedValue();
+    };
+  }
+
   isCustomProp(key: string): boolean {
     const cfg = this.propsConfig ? this.propsConfig[key] : null;
-    return cfg && typeof cfg === 'object' && (
+    return cfg && typeof cfg === 'object' && !PropsController.isComputedConfig(cfg) && (
       typeof cfg.type === 'function' ||
       'default' in cfg ||
       'attribute' in cfg
@@ -185,9 +583,13 @@ export class PropsController {
    */
   applyProps(target: HTMLElementLike, props: Props = this.props) {
     this.applyStyle(target, props.style);
+    this.applyClasses(target, props.classes);
+    this.applyAttrs(target, props.attrs);
     this.applyDataset(target, props.dataset);
     this.applyEventHandlers(target, props);
+    this.applyListeners(target, props.on);
     this.applyRestProps(target, props);
+    this.applyBind(target, props.bind);
   }
 
   /**
@@ -203,14 +605,12 @@ export class PropsController {
    * @param target - Element to apply content to (defaults to this.host)
    */
   applyContent(target: HTMLElementLike = this.host) {
-    const { content, children, innerHTML, textContent } = this.props;
+    const { content, children } = this.props;
 
     // 1. Check if component has render() method
-    const hostWithRender = this.host as HTMLElementLike & {
-      render?(): Node | Node[] | null;
-    };
+    const hostWithRender = this.host as HTMLElementLike & AsyncRenderHost;
     if (hostWithRender.render) {
-      const renderResult = hostWithRender.render();
+      const renderResult = this.callRender();
 
       // Only use render() result if it returns actual Node(s), not Lit/FAST template results
       const isTemplateResult = renderResult &&
@@ -225,7 +625,13 @@ export class PropsController {
         const nodes = this.normalizeChildren(
           Array.isArray(renderResult) ? renderResult : [renderResult],
         );
-        target.replaceChildren(...nodes);
+        if (this.hydrating) {
+          this.hydrate(target, nodes);
+          return;
+        }
+        // Keep <style> elements added for static styles
+        const styles = Array.from(target.childNodes).filter(isStyleElement);
+        target.replaceChildren(...styles, ...nodes);
         return;
       }
     }
@@ -234,17 +640,8 @@ export class PropsController {
     // Skip if Light DOM content was already applied in connectedCallback
     if (this.lightDomApplied) return;
 
-    // innerHTML takes priority
-    if (innerHTML !== undefined) {
-      target.innerHTML = innerHTML;
-      return;
-    }
-
-    // textContent next
-    if (textContent !== undefined) {
-      target.textContent = textContent;
-      return;
-    }
+    // innerHTML takes priority, then textContent
+    if (this.applyDirectContent(target, this.props)) return;
 
     // content/children for Node-based content
     const nodeContent = content ?? children;
@@ -256,11 +653,38 @@ export class PropsController {
     target.replaceChildren(...nodes);
   }
 
+  /**
+   * Adopt server-rendered DOM on first render.
+   * Reconciles the render() result against the existing children instead of replacing them,
+   * so the existing nodes are kept and only get event handlers, refs and props attached.
+   */
+  private hydrate(target: HTMLElementLike, nodes: Node[]) {
+    this.hydrating = false;
+    this.host.removeAttribute(HYDRATE_ATTRIBUTE);
+
+    const mismatches: string[] | null = isDevMode() ? [] : null;
+    const parentMismatches = hydrationMismatches;
+    hydrationMismatches = mismatches;
+    try {
+      this.reconcile(this.getRenderedChildren(target), nodes, target);
+    } finally {
+      hydrationMismatches = parentMismatches;
+    }
+
+    if (mismatches && mismatches.length > 0) {
+      devWarn(
+        `Hydration mismatch in <${this.host.localName}>: server markup differs from client render.\n` +
+          mismatches.map((m) => `  - ${m}`).join('\n'),
+      );
+    }
+  }
+
   // ============================================
   // PRIVATE: Helper methods for applyProps
   // ============================================
 
   private isEventHandler(key: string): boolean {
+    if (key === 'on') return false;
     return key.startsWith('on') && key.length > 2;
   }
 
@@ -275,20 +699,21 @@ export class PropsController {
     // Handle string style - replaces everything
     if (typeof style === 'string') {
       trackedKeys.clear();
+      this.unbind('style:');
       target.setAttribute('style', style);
       return;
     }
 
     // Get default styles from target's config (if available)
     const defaultStyle = targetController?.defaultProps?.style as
-      | Record<string, string>
+      | Record<string, unknown>
       | undefined;
 
     // Merge default styles with incoming styles
     // Incoming styles override defaults
-    const mergedStyle: Record<string, string> = {
+    const mergedStyle: Record<string, unknown> = {
       ...(defaultStyle && typeof defaultStyle === 'object' ? defaultStyle : {}),
-      ...(style && typeof style === 'object' ? (style as Record<string, string>) : {}),
+      ...(style && typeof style === 'object' ? (style as Record<string, unknown>) : {}),
     };
 
     // Determine new keys from merged style object
@@ -301,10 +726,14 @@ export class PropsController {
       }
     }
 
-    // Apply merged style properties
-    if (Object.keys(mergedStyle).length > 0) {
-      Object.assign(target.style, mergedStyle);
+    // Apply merged style properties, signals and functions are bound to their property
+    const targetStyle = target.style as unknown as Record<string, unknown>;
+    for (const [key, value] of Object.entries(mergedStyle)) {
+      this.applyBindable(`style:${key}`, value, typeof value === 'function' ? value as () => unknown : null, (next) => {
+        targetStyle[key] = next;
+      });
     }
+    this.unbind('style:', newKeys);
 
     // Update tracked keys
     trackedKeys.clear();
@@ -313,10 +742,179 @@ export class PropsController {
     }
   }
 
+  /**
+   * Apply the `classes` prop.
+   * Only classes applied by a previous call are removed, so classes added by other code are kept.
+   */
+  private applyClasses(target: HTMLElementLike, classes: Props['classes']) {
+    if (!target.classList) return;
+
+    // Get the controller for this target (may be different from 'this' during morphing)
+    const targetController = (target as unknown as ManagedNode)[PROPS_CONTROLLER];
+    const trackedClasses = targetController?.appliedClasses ?? this.appliedClasses;
+
+    // Default classes from the target's config are always applied
+    const defaultClasses = (targetController ?? this).defaultProps.classes as ClassNames | undefined;
+    const nextClasses = new Set([...this.parseClasses(defaultClasses), ...this.parseClasses(classes)]);
+
+    for (const name of trackedClasses) {
+      if (!nextClasses.has(name)) {
+        target.classList.remove(name);
+      }
+    }
+    for (const name of nextClasses) {
+      target.classList.add(name);
+    }
+
+    trackedClasses.clear();
+    for (const name of nextClasses) {
+      trackedClasses.add(name);
+    }
+  }
+
+  /**
+   * Add the classes applied by the `classes` prop again, after `className` replaced them.
+   */
+  private restoreClasses(target: HTMLElementLike) {
+    const targetController = (target as unknown as ManagedNode)[PROPS_CONTROLLER];
+    for (const name of (targetController ?? this).appliedClasses) {
+      target.classList.add(name);
+    }
+  }
+
+  private parseClasses(classes: ClassNames | undefined): string[] {
+    if (!classes) return [];
+    const names = typeof classes === 'string'
+      ? [classes]
+      : Array.isArray(classes)
+      ? classes.filter((name): name is string => !!name)
+      : Object.keys(classes).filter((name) => classes[name]);
+    return names.flatMap((name) => name.split(/\s+/)).filter((name) => name !== '');
+  }
+
+  /**
+   * Apply the `attrs` prop with setAttribute.
+   * Attributes set by a previous call that are missing now are removed.
+   */
+  private applyAttrs(target: HTMLElementLike, attrs: Props['attrs']) {
+    // Get the controller for this target (may be different from 'this' during morphing)
+    const targetController = (target as unknown as ManagedNode)[PROPS_CONTROLLER];
+    const trackedAttrs = targetController?.appliedAttrs ?? this.appliedAttrs;
+
+    // Incoming attributes override defaults from the target's config
+    const defaultAttrs = (targetController ?? this).defaultProps.attrs as AttributeMap | undefined;
+    const mergedAttrs: AttributeMap = { ...defaultAttrs, ...attrs };
+
+    for (const name of trackedAttrs) {
+      const value = mergedAttrs[name];
+      if (value == null || value === false) {
+        target.removeAttribute(name);
+        trackedAttrs.delete(name);
+      }
+    }
+
+    for (const [name, value] of Object.entries(mergedAttrs)) {
+      if (value == null || value === false) continue;
+      const attrValue = value === true ? '' : String(value);
+      if (target.getAttribute(name) !== attrValue) {
+        target.setAttribute(name, attrValue);
+      }
+      trackedAttrs.add(name);
+    }
+  }
+
+  /**
+   * Apply the `dataset` prop.
+   * Keys set by a previous call that are missing now are removed.
+   */
   private applyDataset(target: HTMLElementLike, dataset: Props['dataset']) {
-    if (!dataset) return;
     if (!target.dataset) return;
-    Object.assign(target.dataset, dataset);
+
+    // Get the controller for this target (may be different from 'this' during morphing)
+    const targetController = (target as unknown as ManagedNode)[PROPS_CONTROLLER];
+    const trackedKeys = targetController?.appliedDatasetKeys ?? this.appliedDatasetKeys;
+
+    // Incoming keys override defaults from the target's config
+    const defaultDataset = (targetController ?? this).defaultProps.dataset as Props['dataset'];
+    const mergedDataset: Props['dataset'] = { ...defaultDataset, ...dataset };
+
+    for (const key of trackedKeys) {
+      if (mergedDataset[key] == null) {
+        delete target.dataset[key];
+        trackedKeys.delete(key);
+      }
+    }
+
+    for (const [key, value] of Object.entries(mergedDataset)) {
+      if (value == null) continue;
+      if (target.dataset[key] !== String(value)) {
+        target.dataset[key] = String(value);
+      }
+      trackedKeys.add(key);
+    }
+  }
+
+  /**
+   * Apply the `on` listener map with addEventListener.
+   * Listeners are diffed against the previous map: changed handlers are swapped in place,
+   * changed options re-add the listener and missing events are removed.
+   */
+  private applyListeners(target: HTMLElementLike, on: Props['on']) {
+    // Get the controller for this target (may be different from 'this' during morphing)
+    const targetController = (target as unknown as ManagedNode)[PROPS_CONTROLLER];
+    const applied = targetController?.appliedListeners ?? this.appliedListeners;
+
+    for (const [type, listener] of applied) {
+      if (!on?.[type]) {
+        target.removeEventListener(type, listener.wrapper, listener.options);
+        applied.delete(type);
+      }
+    }
+
+    if (!on) return;
+
+    for (const [type, entry] of Object.entries(on)) {
+      if (!entry) continue;
+      const [handler, options] = (Array.isArray(entry) ? entry : [entry]) as [
+        AppliedListener['handler'],
+        AppliedListener['options'],
+      ];
+      const existing = applied.get(type);
+
+      if (existing && this.sameListenerOptions(existing.options, options)) {
+        existing.handler = handler;
+        continue;
+      }
+
+      if (existing) {
+        target.removeEventListener(type, existing.wrapper, existing.options);
+      }
+
+      const once = typeof options === 'object' && !!options.once;
+      const listener: AppliedListener = {
+        handler,
+        options,
+        wrapper: (event: Event) => {
+          // The browser removed a once listener, so the next render adds it again
+          if (once && applied.get(type) === listener) applied.delete(type);
+          listener.handler.call(target, event);
+        },
+      };
+      target.addEventListener(type, listener.wrapper, options);
+      applied.set(type, listener);
+    }
+  }
+
+  private sameListenerOptions(
+    a: boolean | AddEventListenerOptions | undefined,
+    b: boolean | AddEventListenerOptions | undefined,
+  ): boolean {
+    const normalize = (options: boolean | AddEventListenerOptions | undefined): AddEventListenerOptions =>
+      typeof options === 'object' ? options : { capture: !!options };
+    const x = normalize(a);
+    const y = normalize(b);
+    return !!x.capture === !!y.capture && !!x.passive === !!y.passive && !!x.once === !!y.once &&
+      x.signal === y.signal;
   }
 
   applyRef(target: HTMLElementLike, ref: Props['ref']) {
@@ -341,20 +939,141 @@ export class PropsController {
     const reserved = new Set([
       'ref',
       'style',
+      'classes',
+      'attrs',
       'dataset',
+      'key',
+      'transition',
+      'bind',
+      'on',
       'innerHTML',
       'textContent',
       'children',
       'content',
       'shadow',
+      'formAssociated',
+      'slots',
     ]);
+    const element = target as unknown as Record<string, unknown>;
+    const applied = new Set<string>();
     for (const [key, value] of Object.entries(props)) {
-      if (reserved.has(key)) continue;
+      if (reserved.has(key) || this.slotNames.includes(key)) continue;
       if (this.isEventHandler(key)) continue;
       if (this.isCustomProp(key)) continue;
 
-      (target as unknown as Record<string, unknown>)[key] = value;
+      // Only signals are bound, plain functions are property values (e.g. callbacks)
+      applied.add(key);
+      this.applyBindable(`prop:${key}`, value, isSignal(value) ? value : null, (next) => {
+        // Writing an unchanged value would move the caret and interrupt IME composition
+        if (FORM_STATE_PROPS.has(key) && this.sameFormState(element[key], next)) return;
+        element[key] = next;
+        // className replaces the whole class list, keep the classes applied by the `classes` prop
+        if (key === 'className') this.restoreClasses(target);
+      });
     }
+    this.unbind('prop:', applied);
+  }
+
+  /**
+   * Apply the `bind` prop: two-way binding between a form control and a signal.
+   * The signal is written on `input` (text, number, textarea) or `change` (checkbox, radio, select),
+   * except during IME composition, and its value is written back to the control.
+   */
+  private applyBind(target: HTMLElementLike, bind: BindSignal | undefined) {
+    if (!bind) {
+      if (this.boundSignal) this.unbind('bind');
+      this.boundSignal = null;
+      return;
+    }
+
+    const element = target as unknown as Element;
+    if (!['input', 'textarea', 'select'].includes(element.localName)) {
+      devWarn(`bind is only supported on <input>, <textarea> and <select>, not <${element.localName}>`);
+      return;
+    }
+
+    this.boundSignal = bind;
+    this.listenBoundValue(element);
+    this.applyBindable('bind', bind, bind, (value) => {
+      if (!this.composing) writeBoundValue(element, value);
+    });
+  }
+
+  private listenBoundValue(element: Element) {
+    if (this.boundListeners) return;
+    this.boundListeners = true;
+
+    const update = () => {
+      if (!this.boundSignal || this.composing) return;
+      // Only the checked radio button of a group sets the value
+      if ((element as HTMLInputElement).type === 'radio' && !(element as HTMLInputElement).checked) return;
+      (this.boundSignal as Signal<unknown>).set(readBoundValue(element));
+    };
+
+    element.addEventListener('compositionstart', () => {
+      this.composing = true;
+    });
+    element.addEventListener('compositionend', () => {
+      this.composing = false;
+      update();
+    });
+    for (const type of ['input', 'change'] as const) {
+      element.addEventListener(type, (event) => {
+        if (type === boundValueEvent(element) && !(event as InputEvent).isComposing) update();
+      });
+    }
+  }
+
+  /**
+   * Apply a value that may be bound to a DOM property. A `source` (signal or function) is read in its own effect
+   * while the host is connected, so only this property is updated when it changes, without a render.
+   * Passing the same source again keeps the binding, any other value replaces it.
+   */
+  private applyBindable(
+    name: string,
+    value: unknown,
+    source: (() => unknown) | null,
+    apply: (value: unknown) => void,
+  ) {
+    const binding = this.bindings.get(name);
+    if (binding && binding.source === source) {
+      binding.apply = apply;
+      return;
+    }
+
+    binding?.dispose?.();
+    if (!source) {
+      this.bindings.delete(name);
+      apply(value);
+      return;
+    }
+
+    const next: PropBinding = { source, apply, dispose: null };
+    this.bindings.set(name, next);
+    if (this.connected) this.startBinding(next);
+    else apply(untracked(source));
+  }
+
+  private startBinding(binding: PropBinding) {
+    binding.dispose = effect(() => {
+      const value = binding.source();
+      untracked(() => binding.apply(value));
+    });
+  }
+
+  /**
+   * Remove the bindings in a group (e.g. `style:`), except the given keys.
+   */
+  private unbind(prefix: string, keep?: Set<string>) {
+    for (const [name, binding] of this.bindings) {
+      if (!name.startsWith(prefix) || keep?.has(name.slice(prefix.length))) continue;
+      binding.dispose?.();
+      this.bindings.delete(name);
+    }
+  }
+
+  private sameFormState(current: unknown, next: unknown): boolean {
+    return current === next || (typeof next === 'number' && current === String(next));
   }
 
   /**
@@ -368,6 +1087,7 @@ export class PropsController {
     batch(() => {
       for (const [key, value] of Object.entries(props)) {
         if (this.isCustomProp(key) && this.customProps[key]) {
+          if (DEV) this.checkProp(key, value);
           this.customProps[key].set(value);
         }
       }
@@ -378,7 +1098,139 @@ export class PropsController {
   // RENDER & UPDATE: Lifecycle methods
   // ============================================
 
+  /**
+   * Schedule an update. Updates are batched in a microtask, so setting several props
+   * results in a single render. Use updateComplete to wait for it or flushSync() to force it.
+   */
   requestUpdate() {
+    if (this.updatePending) return;
+    this.updatePending = true;
+    updateQueue.add(this);
+    scheduleFlush();
+  }
+
+  /**
+   * Promise that resolves once the pending update (render and reconcile) has finished.
+   * Resolves immediately if no update is pending.
+   */
+  get updateComplete(): Promise<void> {
+    if (!this.updatePending) return this.renderComplete();
+    if (!this.updatePromise) {
+      this.updatePromise = new Promise((resolve) => {
+        this.resolveUpdate = resolve;
+      });
+    }
+    return this.updatePromise.then(() => this.renderComplete());
+  }
+
+  /** Whether an update or an async render() result is pending */
+  get isUpdating(): boolean {
+    return this.updatePending || this.pendingRender !== null;
+  }
+
+  /**
+   * Wait until no async render() is pending. Renders started while waiting are waited for as well.
+   */
+  async renderComplete(): Promise<void> {
+    while (this.pendingRender) {
+      await this.pendingRender;
+    }
+  }
+
+  /**
+   * Run the update now. While connected, render() runs inside an effect so that
+   * the signals it reads schedule the next update.
+   */
+  performUpdate() {
+    updateQueue.delete(this);
+    this.updatePending = false;
+
+    try {
+      if (this.connected) {
+        this.trackRender();
+      } else {
+        untracked(() => this.runUpdate());
+      }
+      this.runUpdatedHooks();
+    } finally {
+      const resolve = this.resolveUpdate;
+      this.updatePromise = null;
+      this.resolveUpdate = null;
+      resolve?.();
+    }
+  }
+
+  /**
+   * Render inside a fresh effect. The first run renders and tracks dependencies,
+   * a dependency change only schedules the next update.
+   */
+  private trackRender() {
+    this.renderDispose?.();
+    let rendering = true;
+    let failed = null as { error: unknown } | null;
+    this.renderDispose = effect(() => {
+      if (rendering) {
+        rendering = false;
+        try {
+          this.runUpdate();
+        } catch (error) {
+          failed = { error };
+        }
+      } else {
+        this.requestUpdate();
+      }
+    });
+    // Rethrown outside the effect so it keeps its subscriptions and can be disposed
+    if (failed) throw failed.error;
+  }
+
+  private runUpdate() {
+    const hook = DEV ? getDevtoolsHook() : null;
+    if (hook?.render) {
+      this.runObservedUpdate(hook);
+    } else {
+      this.applyUpdate();
+    }
+  }
+
+  /**
+   * Run the update and report it to the devtools hook, with the signals the next update depends on.
+   */
+  private runObservedUpdate(hook: DevtoolsHook) {
+    const firstRender = !this.firstRenderDone;
+    const propNames = new Map<ReadonlySignal<unknown>, string>();
+    for (const [key, value] of Object.entries(this.customProps)) propNames.set(value, key);
+
+    const dependencies = new Map<ReadonlySignal<unknown>, DevtoolsDependency>();
+    const start = performance.now();
+    observeReads(() => this.applyUpdate(), (signal) => {
+      if (!dependencies.has(signal)) {
+        dependencies.set(signal, { signal, prop: propNames.get(signal) ?? null, value: undefined });
+      }
+    });
+    const duration = performance.now() - start;
+
+    untracked(() => {
+      for (const dependency of dependencies.values()) dependency.value = dependency.signal();
+      hook.render!(this.host as unknown as HTMLElement, {
+        props: this.getPropValues(),
+        dependencies: Array.from(dependencies.values()),
+        firstRender,
+        duration,
+      });
+    });
+  }
+
+  /**
+   * Current values of the custom props, without tracking them.
+   */
+  private getPropValues(): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(this.customProps)) values[key] = untracked(value);
+    return values;
+  }
+
+  private applyUpdate() {
     // Prevent recursive updates
     if (this.updateScheduled) {
       return;
@@ -386,11 +1238,21 @@ export class PropsController {
     this.updateScheduled = true;
 
     try {
-      const hostWithMethods = this.host as HTMLElementLike & {
+      const hostWithMethods = this.host as HTMLElementLike & UpdateHooksHost & {
         update?(): void;
         render?(): Node | Node[] | null;
       };
 
+      if (this.caughtError) {
+        this.renderFallback(this.caughtError.error);
+        return;
+      }
+
+      // Components with update hooks update on any custom prop change, not only the props render() reads
+      const hasHooks = hostWithMethods.willUpdate || hostWithMethods.updated || hostWithMethods.firstUpdated;
+      const changed = this.updateHooks && hasHooks ? this.getChangedProps() : null;
+      if (changed) hostWithMethods.willUpdate?.(changed);
+
       if (this.firstRenderDone) {
         if (hostWithMethods.update) {
           hostWithMethods.update();
@@ -401,17 +1263,252 @@ export class PropsController {
         this.forceUpdate();
         this.firstRenderDone = true;
       }
+
+      if (changed) {
+        for (const [key, value] of Object.entries(this.customProps)) {
+          this.updatedValues.set(key, untracked(value));
+        }
+        if (this.pendingRender) {
+          // Report the changes once the async result is rendered, merged with those of aborted renders
+          const pending = new Map(this.pendingChanges);
+          for (const [key, value] of changed) {
+            if (!pending.has(key)) pending.set(key, value);
+          }
+          this.pendingChanges = pending;
+        } else {
+          this.renderedChanges = changed;
+        }
+      }
+    } catch (error) {
+      this.handleRenderError(error);
     } finally {
       this.updateScheduled = false;
     }
-  }
+  }
+
+  /**
+   * Collect the custom props that changed since the last completed update, mapped to their previous values.
+   * Every prop counts as changed before the first update.
+   */
+  private getChangedProps(): Map<string, unknown> {
+    const changed = new Map<string, unknown>();
+    for (const [key, value] of Object.entries(this.customProps)) {
+      const current = value();
+      const previous = this.updatedValues.get(key);
+      if (!this.updatedValues.has(key) || !Object.is(previous, current)) {
+        changed.set(key, previous);
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Call firstUpdated() and updated() after the DOM has been reconciled.
+   * They run outside the render effect, so props set here schedule another update.
+   */
+  private runUpdatedHooks() {
+    const changed = this.renderedChanges;
+    if (!changed) return;
+    this.renderedChanges = null;
+
+    const host = this.host as HTMLElementLike & UpdateHooksHost;
+    try {
+      untracked(() => {
+        if (!this.hasUpdated) {
+          this.hasUpdated = true;
+          host.firstUpdated?.(changed);
+        }
+        host.updated?.(changed);
+      });
+    } catch (error) {
+      this.handleRenderError(error);
+    }
+  }
+
+  // ============================================
+  // FORM ASSOCIATION
+  // ============================================
+
+  private get formValueProp(): string {
+    return this.formConfig?.value ?? 'value';
+  }
+
+  /**
+   * Submit the form value prop with the form. Runs in an effect while connected.
+   */
+  private syncFormValue() {
+    const value = this.customProps[this.formValueProp]?.();
+    let formValue: FormValue;
+    if (this.formConfig?.toFormValue) {
+      formValue = this.formConfig.toFormValue(value);
+    } else if (value == null || typeof value === 'string' || value instanceof File || value instanceof FormData) {
+      formValue = value ?? null;
+    } else {
+      formValue = String(value);
+    }
+    this.internals!.setFormValue(formValue);
+  }
+
+  /**
+   * Called by formResetCallback(). Restores the form value prop to its value at the first connect.
+   */
+  formReset() {
+    if (!this.formDefaultValue) return;
+    (this.host as unknown as Record<string, unknown>)[this.formValueProp] = this.formDefaultValue.value;
+  }
+
+  /**
+   * Called by formDisabledCallback() when the element or an ancestor fieldset is disabled.
+   */
+  formDisabled(disabled: boolean) {
+    if (this.customProps.disabled) {
+      (this.host as unknown as Record<string, unknown>).disabled = disabled;
+    }
+  }
+
+  /**
+   * Called by formStateRestoreCallback() when the browser restores the form value.
+   */
+  formStateRestore(state: FormValue) {
+    const value = this.formConfig?.fromFormValue ? this.formConfig.fromFormValue(state) : state;
+    (this.host as unknown as Record<string, unknown>)[this.formValueProp] = value;
+  }
+
+  // ============================================
+  // ERROR BOUNDARIES
+  // ============================================
+
+  /**
+   * Pass a render or reconcile error to the nearest error boundary (this component or an ancestor).
+   * Errors without a boundary are rethrown to the caller of the update.
+   */
+  private handleRenderError(error: unknown) {
+    const boundary = this.findErrorBoundary();
+    if (!boundary) throw error;
+
+    const host = boundary.host as HTMLElementLike & ErrorBoundaryHost;
+    try {
+      host.errorCallback?.(error);
+      if (!host.renderError) return;
+
+      if (boundary === this) {
+        this.renderFallback(error);
+      } else {
+        // The boundary may be in the middle of its own render, render the fallback in its next update
+        boundary.caughtError = { error };
+        boundary.requestUpdate();
+      }
+    } catch (boundaryError) {
+      reportError(boundaryError);
+    }
+  }
+
+  /**
+   * Find the nearest component with errorCallback() or renderError(), crossing shadow roots.
+   */
+  private findErrorBoundary(): PropsController | null {
+    let node: Node | null = this.host as unknown as Node;
+    while (node) {
+      const controller = (node as unknown as ManagedNode)[PROPS_CONTROLLER];
+      const host = node as unknown as ErrorBoundaryHost;
+      if (controller && (host.errorCallback || host.renderError)) {
+        return controller;
+      }
+      // Continue from a shadow root to its host, and from a portal to its owner
+      node = node.nodeType === 11 && (node as ShadowRoot).host
+        ? (node as ShadowRoot).host
+        : logicalParents.get(node) ?? node.parentNode;
+    }
+    return null;
+  }
+
+  /**
+   * Replace the content with renderError() output.
+   * Custom props are read so that any later prop change retries render().
+   */
+  private renderFallback(error: unknown) {
+    this.caughtError = null;
+    this.firstRenderDone = false;
+    for (const value of Object.values(this.customProps)) {
+      value();
+    }
+
+    const host = this.host as HTMLElementLike & ErrorBoundaryHost;
+    const fallback = host.renderError!(error);
+    const target = (this.host.shadowRoot ?? this.host) as HTMLElementLike;
+    const nodes = fallback == null ? [] : this.normalizeChildren(Array.isArray(fallback) ? fallback : [fallback]);
+    const styles = Array.from(target.childNodes).filter(isStyleElement);
+    target.replaceChildren(...styles, ...nodes);
+    this.currentRender = null;
+  }
+
+  currentRender: Node | Node[] | null = null;
+
+  /**
+   * Call render() with an AbortSignal that aborts when a newer render starts.
+   * A Promise result is rendered once it resolves, fallback() is shown until then.
+   * Returns the nodes to render now, or null to keep the current content.
+   */
+  private callRender(): Node | Node[] | null {
+    this.renderAbort?.abort();
+    this.renderAbort = null;
+    this.pendingRender = null;
+
+    const host = this.host as HTMLElementLike & AsyncRenderHost;
+    const abort = new AbortController();
+    const start = isProfiling() ? performance.now() : null;
+    const result = host.render!({ signal: abort.signal });
+    if (start !== null) recordRender(this.host.localName, start);
+    if (!isPromiseLike(result)) return result;
+
+    this.renderAbort = abort;
+    const pending: Promise<void> = Promise.resolve(result).then(
+      (resolved) => {
+        if (!abort.signal.aborted) this.commitAsyncRender(resolved);
+      },
+      (error) => {
+        if (!abort.signal.aborted) this.handleRenderError(error);
+      },
+    ).finally(() => {
+      if (this.pendingRender !== pending) return;
+      this.pendingRender = null;
+      this.renderAbort = null;
+    });
+    this.pendingRender = pending;
+
+    // Keep server-rendered markup until the resolved nodes can hydrate it
+    if (this.hydrating) return null;
+    if (host.fallback) return host.fallback() ?? [];
+    // Without fallback(), render nothing on the first render and keep the previous content afterwards
+    return this.currentRender === null ? [] : null;
+  }
+
+  /**
+   * Reconcile the resolved result of an async render(), then call updated().
+   */
+  private commitAsyncRender(result: Node | Node[] | null) {
+    const target = (this.host.shadowRoot ?? this.host) as HTMLElementLike;
+    const nodes = result == null ? [] : this.normalizeChildren(Array.isArray(result) ? result : [result]);
+    try {
+      if (this.hydrating) {
+        this.hydrate(target, nodes);
+      } else {
+        this.reconcile(this.getRenderedChildren(target), nodes, target);
+      }
+      this.currentRender = this.getRenderedChildren(target);
+    } catch (error) {
+      this.pendingChanges = null;
+      this.handleRenderError(error);
+      return;
+    }
 
-  currentRender: Node | Node[] | null = null;
+    this.renderedChanges = this.pendingChanges;
+    this.pendingChanges = null;
+    this.runUpdatedHooks();
+  }
 
   defaultUpdate() {
-    const hostWithRender = this.host as HTMLElementLike & {
-      render?(): Node | Node[] | null;
-    };
+    const hostWithRender = this.host as HTMLElementLike & AsyncRenderHost;
     if (hostWithRender.render) {
       // Use shadowRoot if available, otherwise host element
       const target = (this.host.shadowRoot ?? this.host) as HTMLElementLike;
@@ -419,23 +1516,30 @@ export class PropsController {
       if (this.currentRender === null) {
         // First render
         this.applyContent(target);
-        this.currentRender = Array.from(target.childNodes);
+        this.currentRender = this.getRenderedChildren(target);
       } else {
-        const nextRender = hostWithRender.render();
+        const nextRender = this.callRender();
 
         if (nextRender) {
-          const prevChildren = Array.from(target.childNodes);
+          const prevChildren = this.getRenderedChildren(target);
           const nextChildren = this.normalizeChildren(
             Array.isArray(nextRender) ? nextRender : [nextRender],
           );
 
           this.reconcile(prevChildren, nextChildren, target);
-          this.currentRender = Array.from(target.childNodes);
+          this.currentRender = this.getRenderedChildren(target);
         }
       }
     }
   }
 
+  /**
+   * Get the children of a render target, without <style> elements added for static styles.
+   */
+  private getRenderedChildren(target: HTMLElementLike): Node[] {
+    return Array.from(target.childNodes).filter((node) => !isStyleElement(node));
+  }
+
   // ============================================
   // Custom reconciliation algorithm
   // ============================================
@@ -443,12 +1547,36 @@ export class PropsController {
   private static readonly ELEMENT_NODE = 1;
   private static readonly TEXT_NODE = 3;
 
+  /**
+   * Set the reconciliation key of a node.
+   * Controlled elements store it on their controller, other nodes in a WeakMap.
+   */
+  static setNodeKey(node: Node, key: string | number) {
+    const controller = (node as unknown as ManagedNode)[PROPS_CONTROLLER];
+    if (controller) {
+      controller.key = key;
+    } else {
+      nodeKeys.set(node, key);
+    }
+  }
+
+  /**
+   * Make `parent` the logical parent of a node rendered elsewhere in the document,
+   * so errors inside it reach the owner's error boundaries.
+   */
+  static setLogicalParent(node: Node, parent: Node) {
+    logicalParents.set(node, parent);
+  }
+
   /**
    * Get the matching key for a node.
-   * Priority: id attribute > dataset.key > props.dataset.key
+   * Priority: key prop > id attribute > dataset.key > props.dataset.key
    */
   private getNodeKey(node: ManagedNode | null): string | null {
     if (!node) return null;
+    // key prop or repeat() key
+    const key = node[PROPS_CONTROLLER]?.key ?? nodeKeys.get(node);
+    if (key != null) return `key:${key}`;
     // id attribute (standard DOM)
     if (node.id) return `id:${node.id}`;
     // dataset.key
@@ -461,20 +1589,6 @@ export class PropsController {
     return null;
   }
 
-  /**
-   * Get all descendant IDs as a Set (for matching by child IDs)
-   */
-  private getIdSet(node: ManagedNode): Set<string> {
-    const ids = new Set<string>();
-    if (node.querySelectorAll) {
-      const elements = Array.from(node.querySelectorAll('[id]'));
-      for (const el of elements) {
-        if (el.id) ids.add(el.id);
-      }
-    }
-    return ids;
-  }
-
   /**
    * Get all descendant IDs as an Array
    */
@@ -542,6 +1656,16 @@ export class PropsController {
     return 'none';
   }
 
+  /**
+   * Short description of a node for warnings.
+   */
+  private describeNode(node: ManagedNode | undefined): string {
+    if (!node) return 'node';
+    if (node.nodeType === PropsController.TEXT_NODE) return `text "${node.nodeValue}"`;
+    if (node.nodeType === PropsController.ELEMENT_NODE) return `<${node.localName}>`;
+    return 'node';
+  }
+
   /**
    * Find the longest increasing subsequence indices.
    * Used to minimize DOM move operations.
@@ -592,16 +1716,24 @@ export class PropsController {
     toNodes: Node[],
     parent: HTMLElementLike = this.host,
   ) {
+    if (!isProfiling()) {
+      this.reconcileNodes(fromNodes, toNodes, parent);
+      return;
+    }
+    const start = startReconcile();
+    try {
+      this.reconcileNodes(fromNodes, toNodes, parent);
+    } finally {
+      endReconcile(this.host.localName, start);
+    }
+  }
+
+  private reconcileNodes(fromNodes: Node[], toNodes: Node[], parent: HTMLElementLike) {
     const fromChildren = fromNodes as unknown as ManagedNode[];
     const toChildren = toNodes as unknown as ManagedNode[];
 
-    // Build ID sets for from nodes (for matching by descendant IDs)
-    const fromIdSets = new Map<any, Set<string>>();
-    for (const node of fromChildren) {
-      if (node?.nodeType === PropsController.ELEMENT_NODE) {
-        fromIdSets.set(node, this.getIdSet(node));
-      }
-    }
+    // Positions before any change, for move transitions
+    const firstRects = this.measureMoves(fromChildren);
 
     // Track matches: toIndex -> fromIndex
     const matches: (number | undefined)[] = new Array(toChildren.length);
@@ -612,62 +1744,106 @@ export class PropsController {
     // Track which from nodes have been matched
     const unmatchedFrom = new Set<number>(fromChildren.map((_, i) => i));
 
+    // Unmatched nodes before phase 1, after phase 1, after skipping exiting nodes and after phases 2, 3 and 4
+    const unmatchedCounts = [unmatchedFrom.size];
+
+    // Match toNode with the first candidate that compare() accepts
+    const matchFirst = (
+      toIdx: number,
+      candidates: Candidates | undefined,
+      compare: (fromNode: ManagedNode) => 'equal' | 'same' | 'none',
+    ) => {
+      if (!candidates) return;
+      const { indexes } = candidates;
+      while (candidates.start < indexes.length && !unmatchedFrom.has(indexes[candidates.start]!)) {
+        candidates.start++;
+      }
+      for (let i = candidates.start; i < indexes.length; i++) {
+        const fromIdx = indexes[i]!;
+        if (!unmatchedFrom.has(fromIdx)) continue;
+        const match = compare(fromChildren[fromIdx]!);
+        if (match !== 'none') {
+          matches[toIdx] = fromIdx;
+          operations[toIdx] = match;
+          unmatchedFrom.delete(fromIdx);
+          return;
+        }
+      }
+    };
+    const compareNodes = (toNode: ManagedNode) => (fromNode: ManagedNode) => this.matchNodes(fromNode, toNode);
+
     // ===== PHASE 1: Match by exact key/id =====
+    // From nodes by key, built on the first keyed to node
+    let fromByKey: Map<string, Candidates> | null = null;
     for (let toIdx = 0; toIdx < toChildren.length; toIdx++) {
       const toNode = toChildren[toIdx];
       const toKey = this.getNodeKey(toNode);
 
       if (!toKey) continue;
 
-      for (const fromIdx of unmatchedFrom) {
-        const fromNode = fromChildren[fromIdx];
-        const fromKey = this.getNodeKey(fromNode);
-
-        if (toKey === fromKey) {
-          const match = this.matchNodes(fromNode, toNode);
-          if (match !== 'none') {
-            matches[toIdx] = fromIdx;
-            operations[toIdx] = match;
-            unmatchedFrom.delete(fromIdx);
-            break;
-          }
+      if (!fromByKey) {
+        fromByKey = new Map();
+        for (let fromIdx = 0; fromIdx < fromChildren.length; fromIdx++) {
+          const fromKey = this.getNodeKey(fromChildren[fromIdx]);
+          if (fromKey) addCandidate(fromByKey, fromKey, fromIdx);
         }
       }
+
+      matchFirst(toIdx, fromByKey.get(toKey), compareNodes(toNode));
+    }
+
+    unmatchedCounts.push(unmatchedFrom.size);
+
+    // Exiting nodes are only reused when rendered again with their key
+    for (const fromIdx of unmatchedFrom) {
+      if (exitingNodes.has(fromChildren[fromIdx] as unknown as Node)) unmatchedFrom.delete(fromIdx);
     }
+    unmatchedCounts.push(unmatchedFrom.size);
+
+    // Phases 2-4 only look at to nodes that are still unmatched, and stop once all from nodes are matched
 
     // ===== PHASE 2: Match by descendant IDs (Idiomorph-inspired) =====
-    for (let toIdx = 0; toIdx < toChildren.length; toIdx++) {
+    // From nodes by descendant id, built on the first to node with descendant ids
+    let fromById: Map<string, number[]> | null = null;
+    for (let toIdx = 0; toIdx < toChildren.length && unmatchedFrom.size > 0; toIdx++) {
       if (matches[toIdx] !== undefined) continue;
 
       const toNode = toChildren[toIdx];
       if (!toNode || toNode.nodeType !== PropsController.ELEMENT_NODE) continue;
 
-      const toIdArray = this.getIdArray(toNode);
-      if (toIdArray.length === 0) continue;
-
-      for (const fromIdx of unmatchedFrom) {
-        const fromNode = fromChildren[fromIdx];
-        const fromIdSet = fromIdSets.get(fromNode);
-
-        if (fromIdSet && fromIdSet.size > 0) {
-          // Check if any of toNode's descendant IDs exist in fromNode
-          const hasMatchingId = toIdArray.some((id) => fromIdSet.has(id));
-          if (hasMatchingId) {
-            const match = this.matchNodes(fromNode, toNode);
-            if (match !== 'none') {
-              matches[toIdx] = fromIdx;
-              operations[toIdx] = match;
-              unmatchedFrom.delete(fromIdx);
-              break;
-            }
+      const toIds = this.getIdArray(toNode);
+      if (toIds.length === 0) continue;
+
+      if (!fromById) {
+        fromById = new Map();
+        for (const fromIdx of unmatchedFrom) {
+          const fromNode = fromChildren[fromIdx];
+          if (fromNode?.nodeType !== PropsController.ELEMENT_NODE) continue;
+          for (const id of this.getIdArray(fromNode)) {
+            const indexes = fromById.get(id);
+            if (!indexes) fromById.set(id, [fromIdx]);
+            else if (indexes[indexes.length - 1] !== fromIdx) indexes.push(fromIdx);
           }
         }
       }
+
+      // From nodes containing any of toNode's descendant IDs
+      const indexes = new Set<number>();
+      for (const id of toIds) {
+        for (const fromIdx of fromById.get(id) ?? []) indexes.add(fromIdx);
+      }
+      if (indexes.size > 0) {
+        matchFirst(toIdx, { indexes: [...indexes].sort((a, b) => a - b), start: 0 }, compareNodes(toNode));
+      }
     }
 
+    unmatchedCounts.push(unmatchedFrom.size);
+
     // ===== PHASE 3: Match by isEqualNode =====
     // Skip this phase for nodes with PROPS_CONTROLLER - they need morphing even if DOM looks equal
-    for (let toIdx = 0; toIdx < toChildren.length; toIdx++) {
+    // Equal nodes share their name and text, so only nodes with the same name and text are compared
+    let fromByText: Map<string, Candidates> | null = null;
+    for (let toIdx = 0; toIdx < toChildren.length && unmatchedFrom.size > 0; toIdx++) {
       if (matches[toIdx] !== undefined) continue;
 
       const toNode = toChildren[toIdx];
@@ -678,43 +1854,52 @@ export class PropsController {
       // Skip isEqualNode check for props-controlled nodes - their content is in props, not DOM
       if (toNode[PROPS_CONTROLLER]) continue;
 
-      for (const fromIdx of unmatchedFrom) {
-        const fromNode = fromChildren[fromIdx];
-
-        // Guard: skip null/undefined nodes
-        if (!fromNode) continue;
-
-        // Skip if from node has props controller
-        if (fromNode[PROPS_CONTROLLER]) continue;
-
-        if (fromNode.isEqualNode?.(toNode as unknown as Node)) {
-          matches[toIdx] = fromIdx;
-          operations[toIdx] = 'equal';
-          unmatchedFrom.delete(fromIdx);
-          break;
+      if (!fromByText) {
+        fromByText = new Map();
+        for (const fromIdx of unmatchedFrom) {
+          const fromNode = fromChildren[fromIdx];
+          if (!fromNode || fromNode[PROPS_CONTROLLER]) continue;
+          addCandidate(fromByText, `${fromNode.nodeName}:${fromNode.textContent}`, fromIdx);
         }
       }
+
+      matchFirst(
+        toIdx,
+        fromByText.get(`${toNode.nodeName}:${toNode.textContent}`),
+        (fromNode) => fromNode.isEqualNode(toNode as unknown as Node) ? 'equal' : 'none',
+      );
     }
 
+    unmatchedCounts.push(unmatchedFrom.size);
+
     // ===== PHASE 4: Match by tag name / node type =====
-    for (let toIdx = 0; toIdx < toChildren.length; toIdx++) {
+    // Keyed to nodes can only match unkeyed from nodes here, same keys were matched in phase 1
+    let fromByTag: Map<string, Candidates> | null = null;
+    let unkeyedFromByTag: Map<string, Candidates> | null = null;
+    for (let toIdx = 0; toIdx < toChildren.length && unmatchedFrom.size > 0; toIdx++) {
       if (matches[toIdx] !== undefined) continue;
 
       const toNode = toChildren[toIdx];
+      if (!toNode) continue;
 
-      for (const fromIdx of unmatchedFrom) {
-        const fromNode = fromChildren[fromIdx];
-        const match = this.matchNodes(fromNode, toNode);
-
-        if (match !== 'none') {
-          matches[toIdx] = fromIdx;
-          operations[toIdx] = match;
-          unmatchedFrom.delete(fromIdx);
-          break;
+      if (!fromByTag || !unkeyedFromByTag) {
+        fromByTag = new Map();
+        unkeyedFromByTag = new Map();
+        for (const fromIdx of unmatchedFrom) {
+          const fromNode = fromChildren[fromIdx];
+          if (!fromNode) continue;
+          const tag = fromNode.localName ?? fromNode.nodeName;
+          addCandidate(fromByTag, tag, fromIdx);
+          if (!this.getNodeKey(fromNode)) addCandidate(unkeyedFromByTag, tag, fromIdx);
         }
       }
+
+      const candidates = this.getNodeKey(toNode) ? unkeyedFromByTag : fromByTag;
+      matchFirst(toIdx, candidates.get(toNode.localName ?? toNode.nodeName), compareNodes(toNode));
     }
 
+    unmatchedCounts.push(unmatchedFrom.size);
+
     // Mark unmatched to nodes as 'new'
     for (let toIdx = 0; toIdx < toChildren.length; toIdx++) {
       if (matches[toIdx] === undefined) {
@@ -723,10 +1908,12 @@ export class PropsController {
     }
 
     // ===== Remove unmatched from nodes =====
+    const removed = unmatchedFrom.size;
     for (const fromIdx of unmatchedFrom) {
       const node = fromChildren[fromIdx];
+      hydrationMismatches?.push(`removed ${this.describeNode(node)}`);
       if (node?.parentNode) {
-        node.remove?.();
+        this.removeNode(node);
       }
     }
 
@@ -742,6 +1929,7 @@ export class PropsController {
 
     // ===== Apply changes in order =====
     let insertionPoint: Node | null = parent.firstChild;
+    let moved = 0;
 
     for (let toIdx = 0; toIdx < toChildren.length; toIdx++) {
       const toNode = toChildren[toIdx];
@@ -749,27 +1937,126 @@ export class PropsController {
       const operation = operations[toIdx];
 
       if (operation === 'new') {
+        hydrationMismatches?.push(`inserted ${this.describeNode(toNode)}`);
         // Insert new node
         parent.insertBefore(toNode as unknown as Node, insertionPoint);
+        this.playEnter(toNode);
         insertionPoint = toNode.nextSibling;
       } else if (fromIdx !== undefined) {
         const fromNode = fromChildren[fromIdx];
 
+        // Rendered again while exiting: keep the node and play its enter transition instead
+        const exiting = exitingNodes.get(fromNode as unknown as Node);
+        if (exiting) {
+          exiting.cancelled = true;
+          exiting.animation?.cancel();
+          exitingNodes.delete(fromNode as unknown as Node);
+          this.playEnter(fromNode);
+        }
+
         // Move if not in LIS
         if (!shouldNotMove.has(fromIdx)) {
           if ((fromNode as unknown as Node) !== insertionPoint) {
             parent.insertBefore(fromNode as unknown as Node, insertionPoint);
+            moved++;
           }
         }
 
         // Morph the node if not equal
         if (operation === 'same') {
           this.morphNode(fromNode, toNode);
+        } else if (operation === 'equal' && fromNode.nodeType === PropsController.ELEMENT_NODE) {
+          this.morphEqualFormState(fromNode as unknown as Element, toNode as unknown as Element);
         }
 
         insertionPoint = fromNode.nextSibling;
       }
     }
+
+    if (firstRects) this.playMoves(firstRects);
+
+    const hook = DEV ? getDevtoolsHook() : null;
+    if (hook?.reconcile || isProfiling()) {
+      const stats: ReconcileStats = {
+        parent: parent as unknown as Node,
+        inserted: 0,
+        removed,
+        moved,
+        morphed: 0,
+        unchanged: 0,
+        matchedByKey: unmatchedCounts[0]! - unmatchedCounts[1]!,
+        matchedById: unmatchedCounts[2]! - unmatchedCounts[3]!,
+        matchedByEquality: unmatchedCounts[3]! - unmatchedCounts[4]!,
+        matchedByTag: unmatchedCounts[4]! - unmatchedCounts[5]!,
+      };
+      for (const operation of operations) {
+        if (operation === 'new') stats.inserted++;
+        else if (operation === 'same') stats.morphed++;
+        else stats.unchanged++;
+      }
+      hook?.reconcile?.(this.host as unknown as HTMLElement, stats);
+      if (isProfiling()) recordReconcileCounts(stats);
+    }
+  }
+
+  /**
+   * Remove a node, after its exit transition if it has one.
+   */
+  private removeNode(node: ManagedNode) {
+    if (exitingNodes.has(node as unknown as Node)) return;
+    const transition = node[PROPS_CONTROLLER]?.transition;
+    if (!transition?.exit) {
+      node.remove?.();
+      return;
+    }
+
+    const { animation, finished } = runTransition(node as unknown as Element, transition.exit, transition.options);
+    const exiting = { animation, cancelled: false };
+    exitingNodes.set(node as unknown as Node, exiting);
+    // A cancelled animation rejects its finished promise
+    finished.catch(() => {}).then(() => {
+      if (exiting.cancelled) return;
+      exitingNodes.delete(node as unknown as Node);
+      node.remove?.();
+    });
+  }
+
+  private playEnter(node: ManagedNode) {
+    const transition = node[PROPS_CONTROLLER]?.transition;
+    if (transition?.enter) {
+      runTransition(node as unknown as Element, transition.enter, transition.options);
+    }
+  }
+
+  /**
+   * Measure the nodes with move transitions before reconciliation changes their position.
+   */
+  private measureMoves(nodes: ManagedNode[]): Map<Element, DOMRect> | null {
+    let rects: Map<Element, DOMRect> | null = null;
+    for (const node of nodes) {
+      if (!node?.[PROPS_CONTROLLER]?.transition?.move || !(node as unknown as Element).isConnected) continue;
+      rects ??= new Map();
+      rects.set(node as unknown as Element, (node as unknown as Element).getBoundingClientRect());
+    }
+    return rects;
+  }
+
+  /**
+   * Animate moved nodes from their old position to the new one (FLIP).
+   */
+  private playMoves(firstRects: Map<Element, DOMRect>) {
+    for (const [element, first] of firstRects) {
+      if (!element.isConnected || exitingNodes.has(element) || typeof element.animate !== 'function') continue;
+      const last = element.getBoundingClientRect();
+      const dx = first.left - last.left;
+      const dy = first.top - last.top;
+      if (dx === 0 && dy === 0) continue;
+      const options = (element as unknown as ManagedNode)[PROPS_CONTROLLER]?.transition?.options;
+      element.animate(
+        [{ transform: `translate(${dx}px, ${dy}px)` }, { transform: 'none' }],
+        { ...DEFAULT_TRANSITION_OPTIONS, ...options },
+      );
+    }
   }
 
   /**
@@ -779,6 +2066,7 @@ export class PropsController {
     // Text nodes - just update value
     if (from.nodeType === PropsController.TEXT_NODE) {
       if (from.nodeValue !== to.nodeValue) {
+        hydrationMismatches?.push(`text "${from.nodeValue}" became "${to.nodeValue}"`);
         from.nodeValue = to.nodeValue;
       }
       return;
@@ -792,6 +2080,8 @@ export class PropsController {
       if (fromController && toController) {
         const props = toController.props;
         const target = from as unknown as HTMLElementLike;
+        fromController.key = toController.key;
+        fromController.transition = toController.transition;
 
         // Use the target's controller to apply props (correct propsConfig context)
         fromController.applyProps(target, props);
@@ -811,25 +2101,34 @@ export class PropsController {
           fromController.requestUpdate();
         }
 
+        const contentRoot = fromController.contentRoot ?? target;
+
         // Handle direct content props (innerHTML, textContent) - these replace all children
-        if (this.applyDirectContent(target, props)) {
+        if (fromController.applyDirectContent(contentRoot, props)) {
           return; // Direct content applied, no need to recurse
         }
 
+        if (fromController.slotNames.length > 0) {
+          fromController.applySlotContent(contentRoot, props);
+          return;
+        }
+
         // Recurse children - normalize to ensure all are Node objects
         const nextContent = props.content || props.children;
 
         if (nextContent) {
-          const prevChildren = Array.from(from.childNodes);
+          const prevChildren = Array.from(contentRoot.childNodes);
           const nextChildren = fromController.normalizeChildren(
             Array.isArray(nextContent) ? nextContent : [nextContent],
           );
 
-          fromController.reconcile(
-            prevChildren,
-            nextChildren,
-            from as unknown as HTMLElementLike,
-          );
+          fromController.reconcile(prevChildren, nextChildren, contentRoot);
+
+          // A select's value can only be applied once its options are in place
+          if (from.localName === 'select' && props.value !== undefined) {
+            const select = from as unknown as HTMLSelectElement;
+            if (!this.sameFormState(select.value, props.value)) select.value = String(props.value);
+          }
         }
       } else {
         // Standard DOM morphing - sync attributes
@@ -848,8 +2147,76 @@ export class PropsController {
             from as unknown as HTMLElementLike,
           );
         }
+
+        this.morphFormState(from as unknown as Element, to as unknown as Element);
+      }
+    }
+  }
+
+  /**
+   * isEqualNode() ignores live form state, so equal subtrees still sync their form controls.
+   */
+  private morphEqualFormState(from: Element, to: Element) {
+    this.morphFormState(from, to);
+    const fromControls = from.querySelectorAll('input, textarea, option');
+    if (fromControls.length === 0) return;
+    const toControls = to.querySelectorAll('input, textarea, option');
+    fromControls.forEach((control, i) => this.morphFormState(control, toControls[i]!));
+  }
+
+  /**
+   * Sync live form control state (value, checked, selected) to what render() produced, like controlled inputs.
+   * Only controls whose state render() set (differing from their attribute defaults) are controlled, so
+   * uncontrolled controls keep what the user entered. Unchanged values are not written, so the caret position
+   * and IME composition are preserved. Select elements follow through their options.
+   */
+  private morphFormState(from: Element, to: Element) {
+    if (!controlledNodes.has(from)) {
+      if (!this.hasExplicitFormState(to)) return;
+      controlledNodes.add(from);
+    }
+
+    switch (from.localName) {
+      case 'input': {
+        const input = from as HTMLInputElement;
+        const next = to as HTMLInputElement;
+        if (input.checked !== next.checked) input.checked = next.checked;
+        if (input.indeterminate !== next.indeterminate) input.indeterminate = next.indeterminate;
+        // File inputs can only be cleared, never set
+        if (input.type !== 'file' && input.value !== next.value) input.value = next.value;
+        break;
+      }
+      case 'textarea': {
+        const textarea = from as HTMLTextAreaElement;
+        const next = to as HTMLTextAreaElement;
+        if (textarea.value !== next.value) textarea.value = next.value;
+        break;
+      }
+      case 'option': {
+        const option = from as HTMLOptionElement;
+        const next = to as HTMLOptionElement;
+        if (option.selected !== next.selected) option.selected = next.selected;
+        break;
+      }
+    }
+  }
+
+  private hasExplicitFormState(node: Element): boolean {
+    switch (node.localName) {
+      case 'input': {
+        const input = node as HTMLInputElement;
+        return input.value !== input.defaultValue || input.checked !== input.defaultChecked;
+      }
+      case 'textarea': {
+        const textarea = node as HTMLTextAreaElement;
+        return textarea.value !== textarea.defaultValue;
+      }
+      case 'option': {
+        const option = node as HTMLOptionElement;
+        return option.selected !== option.defaultSelected;
       }
     }
+    return false;
   }
 
   /**
@@ -858,18 +2225,35 @@ export class PropsController {
    * @returns true if direct content was applied, false otherwise
    */
   private applyDirectContent(target: HTMLElementLike, props: Props): boolean {
+    const toText = (value: unknown) => value == null ? '' : String(value);
+
     // innerHTML takes priority (same as applyLightDomContentDirect)
     if ('innerHTML' in props && props.innerHTML !== undefined) {
-      target.innerHTML = String(props.innerHTML);
+      const { innerHTML } = props;
+      this.unbind('textContent');
+      this.applyBindable('innerHTML', innerHTML, typeof innerHTML === 'function' ? innerHTML : null, (value) => {
+        target.innerHTML = toText(value);
+      });
       return true;
     }
 
     // textContent next
     if ('textContent' in props && props.textContent !== undefined) {
-      target.textContent = String(props.textContent);
+      const { textContent } = props;
+      this.unbind('innerHTML');
+      this.applyBindable(
+        'textContent',
+        textContent,
+        typeof textContent === 'function' ? textContent : null,
+        (value) => {
+          target.textContent = toText(value);
+        },
+      );
       return true;
     }
 
+    this.unbind('innerHTML');
+    this.unbind('textContent');
     return false;
   }
 
@@ -881,6 +2265,7 @@ export class PropsController {
     for (let i = 0; i < to.attributes.length; i++) {
       const { name, value } = to.attributes[i]!;
       if (from.getAttribute(name) !== value) {
+        hydrationMismatches?.push(`attribute "${name}" changed on <${from.localName}>`);
         from.setAttribute(name, value);
       }
     }
@@ -894,6 +2279,7 @@ export class PropsController {
       }
     }
     for (const name of toRemove) {
+      hydrationMismatches?.push(`attribute "${name}" removed from <${from.localName}>`);
       from.removeAttribute(name);
     }
   }
@@ -909,46 +2295,199 @@ export class PropsController {
     if (!props) return;
 
     Object.entries(props).forEach(([key, config]) => {
-      const isPropConfig = config && typeof config === 'object' && (
-        typeof config.type === 'function' ||
-        'default' in config ||
-        'attribute' in config
-      );
-      if (!isPropConfig) return;
+      const attrName = PropsController.getAttributeName(key, config);
+      if (!attrName) return;
 
-      if (config.attribute) {
-        const s = this.customProps[key];
-        if (!s) return;
-        const val = s();
-        const attrName = typeof config.attribute === 'string' ? config.attribute : key.toLowerCase();
+      const read = this.customProps[key] ?? this.computedProps[key];
+      if (!read) return;
+      const val = read();
 
-        const isBoolean = config.type === Boolean ||
-          (typeof config.default === 'boolean');
+      const converter = this.getConverter(config);
+      const attrValue = converter.toAttribute!(val, config.type);
 
-        if (isBoolean) {
-          if (val) {
-            if (!host.hasAttribute(attrName)) {
-              host.setAttribute(attrName, '');
-            }
-          } else {
-            if (host.hasAttribute(attrName)) {
-              host.removeAttribute(attrName);
-            }
-          }
-        } else {
-          if (val != null) {
-            const strVal = String(val);
-            if (host.getAttribute(attrName) !== strVal) {
-              host.setAttribute(attrName, strVal);
-            }
-          } else {
+      // Don't convert reflected values back, converters may be one-way
+      this.reflecting = true;
+      try {
+        if (attrValue === null) {
+          if (host.hasAttribute(attrName)) {
             host.removeAttribute(attrName);
           }
+        } else if (host.getAttribute(attrName) !== attrValue) {
+          host.setAttribute(attrName, attrValue);
         }
+      } finally {
+        this.reflecting = false;
+      }
+    });
+  }
+
+  /**
+   * Get the attribute name a prop is reflected to, or null if it has no attribute.
+   * Shared by observedAttributes, attributeChangedCallback and reflectAttributes.
+   */
+  static getAttributeName(key: string, config: PropConfig | unknown): string | null {
+    if (!config || typeof config !== 'object') return null;
+    const { attribute } = config as PropConfig;
+    if (!attribute) return null;
+    return typeof attribute === 'string' ? attribute : key.toLowerCase();
+  }
+
+  /**
+   * Resolve the attribute converter for a prop.
+   * A custom converter may implement only one direction; the other falls back to the default for the prop's type.
+   */
+  private getConverter(config: PropConfig): Required<AttributeConverter> {
+    const fallback = this.getDefaultConverter(config);
+    return {
+      fromAttribute: config.converter?.fromAttribute ?? fallback.fromAttribute!,
+      toAttribute: config.converter?.toAttribute ?? fallback.toAttribute!,
+    };
+  }
+
+  private getDefaultConverter(config: PropConfig): AttributeConverter {
+    const { type, default: defaultValue } = config;
+    if (type === Boolean || typeof defaultValue === 'boolean') return booleanConverter;
+    if (type === Number || typeof defaultValue === 'number') return numberConverter;
+    if (defaultValue instanceof Date) return dateConverter;
+    if (
+      type === Array || type === Object || Array.isArray(defaultValue) ||
+      (defaultValue !== null && typeof defaultValue === 'object')
+    ) {
+      return jsonConverter;
+    }
+    return stringConverter;
+  }
+
+  /**
+   * Validate a custom prop value in dev mode and report an error naming the component and prop.
+   */
+  private checkProp(key: string, value: unknown) {
+    if (!isDevMode()) return;
+    const error = validateProp(this.propsConfig![key], value);
+    if (error) {
+      devError(`${this.describeHost()} prop "${key}" ${error}`);
+    }
+  }
+
+  /**
+   * Report required props that have no value when the element is connected.
+   */
+  private checkRequiredProps() {
+    const props = this.propsConfig;
+    if (!props || !isDevMode()) return;
+    for (const [key, config] of Object.entries(props)) {
+      if (this.isCustomProp(key) && config.required && this.customProps[key]() == null) {
+        this.checkProp(key, this.customProps[key]());
       }
+    }
+  }
+
+  /**
+   * Short description of the host element for errors, e.g. `<button is="my-button">`.
+   */
+  private describeHost(): string {
+    const constructor = this.host.constructor as { __tagName?: string };
+    const name = Object.hasOwn(constructor, '__tagName') ? constructor.__tagName : null;
+    if (name && name !== this.host.localName) return `<${this.host.localName} is="${name}">`;
+    return `<${this.host.localName}>`;
+  }
+
+  /**
+   * Provide a context value to descendants, including those inside shadow roots.
+   * Calling again with the same context updates the value for all subscribed consumers.
+   */
+  provide<T>(context: Context<T>, value: T): Signal<T> {
+    const existing = this.providedContexts.get(context);
+    if (existing) {
+      existing.value.set(value);
+      return existing.value as Signal<T>;
+    }
+
+    if (this.providedContexts.size === 0) {
+      this.host.addEventListener('context-request', (e: Event) => this.onContextRequest(e));
+    }
+
+    const provided: ProvidedContext = { value: signal<unknown>(value), subscribers: new Map() };
+    this.providedContexts.set(context, provided);
+    if (this.connected) this.notifySubscribers(provided);
+
+    return provided.value as Signal<T>;
+  }
+
+  /**
+   * Push the provided value to its subscribers whenever it changes, until the host disconnects.
+   */
+  private notifySubscribers(provided: ProvidedContext) {
+    provided.dispose = effect(() => {
+      const current = provided.value();
+      untracked(() => {
+        for (const [callback, unsubscribe] of provided.subscribers) {
+          callback(current, unsubscribe);
+        }
+      });
     });
   }
 
+  /**
+   * Answer context requests for contexts provided by this host.
+   */
+  private onContextRequest(event: Event) {
+    const request = event as ContextRequestEvent<Context<unknown>>;
+    const provided = this.providedContexts.get(request.context);
+    // A host may consume a context it also provides; that request belongs to an ancestor
+    if (!provided || request.contextTarget === (this.host as unknown as Element)) return;
+
+    event.stopPropagation();
+
+    const value = untracked(provided.value);
+    if (!request.subscribe) {
+      request.callback(value);
+      return;
+    }
+
+    const { callback } = request;
+    const unsubscribe = () => provided.subscribers.delete(callback);
+    provided.subscribers.set(callback, unsubscribe);
+    callback(value, unsubscribe);
+  }
+
+  /**
+   * Consume a context from the nearest provider.
+   * The returned signal is undefined until a provider answers, and follows the provided value
+   * while the host is connected.
+   */
+  consume<T>(context: Context<T>): Signal<T | undefined> {
+    const consumed: ConsumedContext = { context, value: signal<unknown>(undefined) };
+    this.consumedContexts.push(consumed);
+    if (this.connected) this.requestContext(consumed);
+    return consumed.value as Signal<T | undefined>;
+  }
+
+  private requestContext(consumed: ConsumedContext) {
+    const callback: ContextCallback<unknown> = (value, unsubscribe) => {
+      // A provider that answered an earlier request is replaced by the current one
+      if (unsubscribe !== consumed.unsubscribe) {
+        consumed.unsubscribe?.();
+        consumed.unsubscribe = unsubscribe;
+      }
+      consumed.value.set(value);
+    };
+    this.host.dispatchEvent(
+      new ContextRequestEvent(consumed.context, this.host as unknown as Element, callback, true),
+    );
+  }
+
+  /**
+   * Stop receiving updates for consumed contexts. They are requested again on reconnect,
+   * possibly from a different provider.
+   */
+  private unsubscribeContexts() {
+    for (const consumed of this.consumedContexts) {
+      consumed.unsubscribe?.();
+      consumed.unsubscribe = undefined;
+    }
+  }
+
   /**
    * Setup event listeners for props with 'event' config.
    * Creates wrapper handlers that call the current prop value.
@@ -987,18 +2526,55 @@ export class PropsController {
   /**
    * Called AFTER super.connectedCallback().
    * Sets up effects for reactive updates.
+   * Returns false when the connect is deferred until the document is parsed, `onDeferredConnect` runs after it.
    */
-  onConnected() {
+  onConnected(onDeferredConnect?: () => void): boolean {
     // Prevent duplicate connections
-    if (this.connected) return;
+    if (this.connected) return true;
+
+    // Read on connect, the parser sets attributes after constructing elements that are already defined
+    this.hydrating = this.host.hasAttribute(HYDRATE_ATTRIBUTE);
+    const { ownerDocument } = this.host as unknown as HTMLElement;
+    if (this.hydrating && ownerDocument.readyState === 'loading') {
+      // The parser connects elements before their children, wait for the server markup to hydrate it
+      ownerDocument.addEventListener('DOMContentLoaded', () => {
+        if (!(this.host as unknown as HTMLElement).isConnected || this.connected) return;
+        try {
+          this.onConnected();
+        } finally {
+          onDeferredConnect?.();
+        }
+      }, { once: true });
+      return false;
+    }
     this.connected = true;
 
+    if (DEV) this.checkRequiredProps();
+
     // Setup event listeners for props with 'event' config
     this.setupEventListeners();
 
-    const renderDispose = effect(() => this.requestUpdate());
+    // Request consumed contexts before rendering so the first render sees provided values
+    for (const consumed of this.consumedContexts) this.requestContext(consumed);
+    for (const provided of this.providedContexts.values()) this.notifySubscribers(provided);
+
+    // First render is synchronous so the element is populated as soon as it is connected.
+    // A render error without a boundary is rethrown once the element is set up, so later updates can recover.
+    let renderFailed = null as { error: unknown } | null;
+    try {
+      this.performUpdate();
+    } catch (error) {
+      renderFailed = { error };
+    }
+    for (const binding of this.bindings.values()) this.startBinding(binding);
     const reflectDispose = effect(() => this.reflectAttributes());
 
+    let formDispose: (() => void) | null = null;
+    if (this.internals) {
+      this.formDefaultValue ??= { value: untracked(() => this.customProps[this.formValueProp]?.()) };
+      formDispose = effect(() => this.syncFormValue());
+    }
+
     this.cleanup = () => {
       if (this.ref) {
         if (typeof this.ref === 'function') {
@@ -1007,10 +2583,25 @@ export class PropsController {
           this.ref.current = null;
         }
       }
-      renderDispose();
+      this.renderDispose?.();
+      this.renderDispose = null;
+      this.renderAbort?.abort();
+      for (const binding of this.bindings.values()) {
+        binding.dispose?.();
+        binding.dispose = null;
+      }
       reflectDispose();
+      formDispose?.();
+      for (const dispose of this.computedDisposers) dispose();
+      this.computedDisposers = [];
       this.cleanupEventListeners();
+      this.unsubscribeContexts();
+      for (const provided of this.providedContexts.values()) provided.dispose?.();
+      if (DEV) getDevtoolsHook()?.dispose?.(this.host as unknown as HTMLElement);
     };
+
+    if (renderFailed) throw renderFailed.error;
+    return true;
   }
 
   /**
@@ -1018,7 +2609,7 @@ export class PropsController {
    * This applies content directly to Light DOM, bypassing the guard.
    */
   updateContent(target: HTMLElementLike) {
-    this.applyLightDomContentDirect(target);
+    this.applyLightDomContentDirect(this.contentRoot ?? target);
   }
 
   /**
@@ -1031,7 +2622,7 @@ export class PropsController {
     if (this.lightDomApplied) return;
     this.lightDomApplied = true;
 
-    this.applyLightDomContentDirect(target);
+    this.applyLightDomContentDirect(this.contentRoot ?? target);
   }
 
   /**
@@ -1039,17 +2630,13 @@ export class PropsController {
    * Called by both applyLightDomContent and updateContent.
    */
   private applyLightDomContentDirect(target: HTMLElementLike) {
-    const { content, children, innerHTML, textContent } = this.props;
+    const { content, children } = this.props;
 
-    // innerHTML takes priority
-    if (innerHTML !== undefined) {
-      target.innerHTML = innerHTML;
-      return;
-    }
+    // innerHTML takes priority, then textContent
+    if (this.applyDirectContent(target, this.props)) return;
 
-    // textContent next
-    if (textContent !== undefined) {
-      target.textContent = textContent;
+    if (this.slotNames.length > 0) {
+      this.applySlotContent(target, this.props);
       return;
     }
 
@@ -1063,6 +2650,53 @@ export class PropsController {
     target.replaceChildren(...nodes);
   }
 
+  /**
+   * Set the content of a named slot (called by the slot prop setters).
+   */
+  setSlotContent(name: string, value: Node | Node[] | undefined) {
+    this.props[name] = value;
+    this.applySlotContent(this.contentRoot ?? this.host, { [name]: value });
+  }
+
+  /**
+   * Reconcile the default content and each named slot's content into the Light DOM.
+   * Every slot only touches the children assigned to it, so updating one slot keeps the others.
+   * Slots whose prop is undefined keep their existing children (HTML upgrade).
+   */
+  applySlotContent(target: HTMLElementLike, props: Props) {
+    const slotOf = (node: Node) => {
+      const name = (node as Element).getAttribute?.('slot');
+      return name != null && this.slotNames.includes(name) ? name : null;
+    };
+
+    const nodeContent = props.content ?? props.children;
+    if (nodeContent !== undefined) {
+      const prevChildren = Array.from(target.childNodes).filter((node) => slotOf(node) === null);
+      const nextChildren = this.normalizeChildren(Array.isArray(nodeContent) ? nodeContent : [nodeContent]);
+      this.reconcileSlot(prevChildren, nextChildren, target);
+    }
+
+    for (const name of this.slotNames) {
+      const slotContent = props[name];
+      if (slotContent === undefined) continue;
+      this.props[name] = slotContent;
+
+      const prevChildren = Array.from(target.childNodes).filter((node) => slotOf(node) === name);
+      const nextChildren = this.normalizeChildren(Array.isArray(slotContent) ? slotContent : [slotContent])
+        .map((node) => assignSlot(node, name));
+      this.reconcileSlot(prevChildren, nextChildren, target);
+    }
+  }
+
+  private reconcileSlot(prevChildren: Node[], nextChildren: Node[], target: HTMLElementLike) {
+    // Reconciliation inserts before the first child, append new slots after the existing content instead
+    if (prevChildren.length === 0) {
+      for (const node of nextChildren) target.insertBefore(node, null);
+    } else {
+      this.reconcile(prevChildren, nextChildren, target);
+    }
+  }
+
   onDisconnected() {
     this.connected = false;
     this.lightDomApplied = false; // Reset for reconnection
@@ -1077,28 +2711,20 @@ export class PropsController {
     oldVal: string | null,
     newVal: string | null,
   ) {
-    if (oldVal === newVal) return;
+    if (oldVal === newVal || this.reflecting) return;
 
     const props = this.propsConfig;
     if (!props) return;
 
     // Find prop for attribute
-    const entry = Object.entries(props).find(([key, config]) => {
-      const attr = typeof config.attribute === 'string' ? config.attribute : key.toLowerCase();
-      return attr === name;
-    });
+    const entry = Object.entries(props).find(([key, config]) => PropsController.getAttributeName(key, config) === name);
 
     if (entry) {
       const [key, config] = entry;
-      let val: string | number | boolean | null = newVal;
+      const val = this.getConverter(config).fromAttribute(newVal, config.type);
 
-      if (config.type === Boolean || (typeof config.default === 'boolean')) {
-        val = newVal !== null;
-      } else if (
-        config.type === Number || (typeof config.default === 'number')
-      ) {
-        val = newVal === null ? null : Number(newVal);
-      }
+      // Converters return undefined for values they reject
+      if (val === undefined) return;
 
       (this.host as unknown as Record<string, unknown>)[key] = val;
     }
@@ -0,0 +1,127 @@
+import { devWarn } from './dev.ts';
+import type { AttributeConverter } from './types.ts';
+
+/**
+ * Boolean attributes: present means true, absent means false.
+ */
+export const booleanConverter: AttributeConverter<boolean> = {
+  fromAttribute: (value) => value !== null,
+  toAttribute: (value) => (value ? '' : null),
+};
+
+/**
+ * Numeric attributes. A removed attribute becomes null.
+ */
+export const numberConverter: AttributeConverter<number | null> = {
+  fromAttribute: (value) => (value === null ? null : Number(value)),
+  toAttribute: (value) => (value == null ? null : String(value)),
+};
+
+/**
+ * Plain string attributes (the default).
+ */
+export const stringConverter: AttributeConverter<unknown> = {
+  fromAttribute: (value) => value,
+  toAttribute: (value) => (value == null ? null : String(value)),
+};
+
+/**
+ * JSON attributes for Array and Object props.
+ * Invalid JSON is ignored and the prop keeps its current value.
+ *
+ * @example
+ * ```ts
+ * items: prop<string[]>([], { attribute: true, converter: jsonConverter })
+ * ```
+ * ```html
+ * <my-list items='["a", "b"]'></my-list>
+ * ```
+ */
+export const jsonConverter: AttributeConverter<unknown> = {
+  fromAttribute: (value) => {
+    if (value === null) return null;
+    try {
+      return JSON.parse(value);
+    } catch {
+      devWarn(`Invalid JSON attribute value: ${value}`);
+      return undefined;
+    }
+  },
+  toAttribute: (value) => (value == null ? null : JSON.stringify(value)),
+};
+
+/**
+ * Date attributes, serialized as ISO 8601 strings.
+ * Unparseable dates are ignored and the prop keeps its current value.
+ */
+export const dateConverter: AttributeConverter<Date | null> = {
+  fromAttribute: (value) => {
+    if (value === null) return null;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      devWarn(`Invalid date attribute value: ${value}`);
+      return undefined;
+    }
+    return date;
+  },
+  toAttribute: (value) => {
+    if (!(value instanceof Date) || isNaN(value.getTime())) return null;
+    return value.toISOString();
+  },
+};
+
+/**
+ * String-literal enum attributes. Values outside of `values` are ignored
+ * and the prop keeps its current value.
+ *
+ * @example
+ * ```ts
+ * variant: prop<'primary' | 'secondary'>('primary', {
+ *   attribute: true,
+ *   converter: enumConverter(['primary', 'secondary']),
+ * })
+ * ```
+ */
+export function enumConverter<T extends string>(values: readonly T[]): AttributeConverter<T | null> {
+  const isValid = (value: unknown): value is T => values.includes(value as T);
+  return {
+    fromAttribute: (value) => {
+      if (value === null) return null;
+      if (!isValid(value)) {
+        devWarn(`Invalid attribute value "${value}", expected one of: ${values.join(', ')}`);
+        return undefined;
+      }
+      return value;
+    },
+    toAttribute: (value) => {
+      if (value == null) return null;
+      if (!isValid(value)) {
+        devWarn(`Invalid value "${value}", expected one of: ${values.join(', ')}`);
+        return null;
+      }
+      return value;
+    },
+  };
+}
+
+/**
+ * Separated list attributes (comma-separated by default).
+ * Items are trimmed and empty items are dropped.
+ *
+ * @example
+ * ```ts
+ * tags: prop<string[]>([], { attribute: true, converter: listConverter() })
+ * ```
+ * ```html
+ * <my-tags tags="news, sports"></my-tags>
+ * ```
+ */
+export function listConverter(separator = ','): AttributeConverter<string[]> {
+  return {
+    fromAttribute: (value) => {
+      if (value === null) return [];
+      return value.split(separator).map((item) => item.trim()).filter((item) => item !== '');
+    },
+    toAttribute: (value) => (value && value.length > 0 ? value.join(separator) : null),
+  };
+}
@@ -0,0 +1,49 @@
+declare const HTML_PROPS_DEV: boolean | undefined;
+
+/**
+ * Build-time switch for development-only code.
+ * Production builds can define `HTML_PROPS_DEV` as `false` (e.g. esbuild `--define:HTML_PROPS_DEV=false`)
+ * so that dev mode checks are removed by dead code elimination.
+ */
+export const DEV: boolean = typeof HTML_PROPS_DEV === 'undefined' || HTML_PROPS_DEV;
+
+let devMode = false;
+
+/**
+ * Enable or disable development mode.
+ * In development mode html-props performs extra checks and logs warnings (e.g. hydration mismatches, prop validation).
+ * Has no effect when `HTML_PROPS_DEV` is defined as `false`.
+ *
+ * @example
+ * ```ts
+ * setDevMode(true);
+ * ```
+ */
+export function setDevMode(enabled: boolean): void {
+  devMode = enabled;
+}
+
+/**
+ * Check whether development mode is enabled.
+ */
+export function isDevMode(): boolean {
+  return DEV && devMode;
+}
+
+/**
+ * Log a development mode warning.
+ */
+export function devWarn(message: string): void {
+  if (DEV && devMode) {
+    console.warn(`[html-props] ${message}`);
+  }
+}
+
+/**
+ * Log a development mode error.
+ */
+export function devError(message: string): void {
+  if (DEV && devMode) {
+    console.error(`[html-props] ${message}`);
+  }
+}
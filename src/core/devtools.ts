@@ -0,0 +1,76 @@
+import type { ReadonlySignal } from '@html-props/signals';
+import { DEV } from './dev.ts';
+
+/** Name of the global that developer tools install their hook on */
+export const DEVTOOLS_HOOK = '__HTML_PROPS_DEVTOOLS__';
+
+/** A signal read by a component's render() */
+export interface DevtoolsDependency {
+  signal: ReadonlySignal<unknown>;
+  /** Name of the component's own prop backed by this signal, null for other signals */
+  prop: string | null;
+  value: unknown;
+}
+
+/** Details of a single component update */
+export interface DevtoolsRenderInfo {
+  /** Custom prop values after the update */
+  props: Record<string, unknown>;
+  /** Signals the next update depends on. Empty while the component is disconnected. */
+  dependencies: DevtoolsDependency[];
+  /** Whether this was the component's first render */
+  firstRender: boolean;
+  /** Time spent in render and reconcile, in milliseconds */
+  duration: number;
+}
+
+/** Operations of a single reconcile() call. Nested calls for child elements are reported separately. */
+export interface ReconcileStats {
+  /** Element whose children were reconciled */
+  parent: Node;
+  inserted: number;
+  removed: number;
+  moved: number;
+  /** Matched nodes that were updated in place */
+  morphed: number;
+  /** Matched nodes that were already equal */
+  unchanged: number;
+  /** Matches found by each matching phase: key, descendant id, isEqualNode() and tag name */
+  matchedByKey: number;
+  matchedById: number;
+  matchedByEquality: number;
+  matchedByTag: number;
+}
+
+/**
+ * Hook installed by developer tools as `globalThis.__HTML_PROPS_DEVTOOLS__`.
+ * Components notify it about their lifecycle, so tools can show a live component tree
+ * and highlight updates. Only notified in development builds (see `HTML_PROPS_DEV`).
+ *
+ * @example
+ * ```ts
+ * globalThis.__HTML_PROPS_DEVTOOLS__ = {
+ *   render(component, info) {
+ *     console.log(component.localName, info.duration, info.dependencies.map((dep) => dep.prop));
+ *   },
+ * };
+ * ```
+ */
+export interface DevtoolsHook {
+  /** A component was constructed */
+  create?(component: HTMLElement, props: Record<string, unknown>): void;
+  /** A component rendered */
+  render?(component: HTMLElement, info: DevtoolsRenderInfo): void;
+  /** Children were reconciled. `component` is the element whose render() or content props provided them. */
+  reconcile?(component: HTMLElement, stats: ReconcileStats): void;
+  /** A component was disconnected and its effects were disposed */
+  dispose?(component: HTMLElement): void;
+}
+
+/**
+ * Get the installed devtools hook. Always null in production builds.
+ */
+export function getDevtoolsHook(): DevtoolsHook | null {
+  if (!DEV) return null;
+  return (globalThis as Record<string, unknown>)[DEVTOOLS_HOOK] as DevtoolsHook | undefined ?? null;
+}
@@ -1,6 +1,25 @@
+import type { Signal } from '@html-props/signals';
 import { HTML_PROPS_MIXIN, PROPS_CONTROLLER, PropsController } from './controller.ts';
 import type { RefObject } from './ref.ts';
-import type { Constructor, InferConstructorProps, InferProps, PropsConfig, PropsConfigValidator } from './types.ts';
+import type { Context } from './context.ts';
+import { devWarn } from './dev.ts';
+import { adoptStyles, getClassStyles } from './styles.ts';
+import type {
+  AttributeMap,
+  Bindable,
+  BindableProps,
+  BindableStyle,
+  BindSignal,
+  ClassNames,
+  Constructor,
+  EventListenerMap,
+  InferConstructorProps,
+  InferProps,
+  PropsConfig,
+  PropsConfigValidator,
+  RenderOptions,
+  TransitionConfig,
+} from './types.ts';
 
 export interface HTMLPropsElementConstructor<
   T extends Constructor,
@@ -8,9 +27,17 @@ export interface HTMLPropsElementConstructor<
   IP = P,
 > {
   new (
-    props?: Omit<Partial<InstanceType<T>>, 'style' | 'children'> & {
-      style?: Partial<CSSStyleDeclaration> | string;
+    props?: BindableProps<Omit<InstanceType<T>, 'style' | 'children' | 'textContent' | 'innerHTML'>> & {
+      style?: BindableStyle | string;
+      textContent?: Bindable<string | number | null>;
+      innerHTML?: Bindable<string>;
       ref?: RefObject<any> | ((el: InstanceType<T>) => void);
+      key?: string | number;
+      transition?: TransitionConfig;
+      bind?: BindSignal;
+      on?: EventListenerMap;
+      classes?: ClassNames;
+      attrs?: AttributeMap;
       children?: any;
       content?: any;
       shadow?: boolean | ShadowRootInit;
@@ -21,11 +48,22 @@ export interface HTMLPropsElementConstructor<
     disconnectedCallback(): void;
     mountedCallback?(): void;
     unmountedCallback?(): void;
+    errorCallback?(error: unknown): void;
+    renderError?(error: unknown): any;
+    willUpdate?(changed: Map<keyof IP & string, unknown>): void;
+    updated?(changed: Map<keyof IP & string, unknown>): void;
+    firstUpdated?(changed: Map<keyof IP & string, unknown>): void;
     update?(): void;
     defaultUpdate(): void;
     forceUpdate(): void;
     requestUpdate(): void;
-    render(): any;
+    readonly updateComplete: Promise<void>;
+    readonly internals: ElementInternals | null;
+    setValidity(flags?: ValidityStateFlags, message?: string, anchor?: HTMLElement): void;
+    provide<V>(context: Context<V>, value: V): Signal<V>;
+    consume<V>(context: Context<V>): Signal<V | undefined>;
+    render(options: RenderOptions): any;
+    fallback?(): any;
   };
   define(
     tagName: string,
@@ -60,18 +98,19 @@ export function HTMLPropsMixin<T extends Constructor, POrConfig = {}>(
 
     static define(tagName: string, options?: any) {
       customElements.define(tagName, this as any, options);
+      // Remember the registered name (used by renderToString for `is` attributes)
+      (this as any).__tagName = tagName;
       return this;
     }
 
     static get observedAttributes() {
       const propsConfig = (this as any).__propsConfig as PropsConfig;
       if (!propsConfig) return [];
+      // Computed props are only reflected, never set from their attribute
       return Object.entries(propsConfig)
-        .filter(([_, cfg]) => cfg.attribute)
-        .map(([key, cfg]) => {
-          if (typeof cfg.attribute === 'string') return cfg.attribute;
-          return key.toLowerCase();
-        });
+        .filter(([, cfg]) => !PropsController.isComputedConfig(cfg))
+        .map(([key, cfg]) => PropsController.getAttributeName(key, cfg))
+        .filter((name): name is string => name !== null);
     }
 
     constructor(...args: any[]) {
@@ -109,7 +148,14 @@ export function HTMLPropsMixin<T extends Constructor, POrConfig = {}>(
         this.attachShadow(shadowInit);
       }
 
+      // Adopt static styles (shared stylesheets, created once per class)
+      if (this.shadowRoot) {
+        adoptStyles(this.shadowRoot, getClassStyles(this.constructor as any));
+      }
+
       this[PROPS_CONTROLLER] = new PropsController(this, propsConfig, props);
+      // Bases with their own update cycle (e.g. Lit) call their own willUpdate/updated/firstUpdated
+      this[PROPS_CONTROLLER].updateHooks = (Base as any)[HTML_PROPS_MIXIN] || !('requestUpdate' in Base.prototype);
     }
 
     override connectedCallback() {
@@ -122,19 +168,29 @@ export function HTMLPropsMixin<T extends Constructor, POrConfig = {}>(
       // @ts-ignore
       if (super.connectedCallback) super.connectedCallback();
 
-      // 3. Apply ref now that element is fully connected
-      this[PROPS_CONTROLLER].applyRef(this, this[PROPS_CONTROLLER].props.ref);
-
-      // 4. Set up effects AFTER super (so Lit/FAST is initialized)
-      this[PROPS_CONTROLLER].onConnected();
-
-      if ((this as any).mountedCallback) {
-        // Call mountedCallback in microtask to ensure full DOM tree is ready.
-        // This allows parent components to finish their forceUpdate/render cycle
-        // before children try to update parent props.
-        queueMicrotask(() => {
-          (this as any).mountedCallback();
-        });
+      const controller = this[PROPS_CONTROLLER];
+      const mount = () => {
+        // 4. Apply ref now that element is fully connected
+        controller.applyRef(this, controller.props.ref);
+
+        if ((this as any).mountedCallback) {
+          // Call mountedCallback in microtask to ensure full DOM tree is ready.
+          // This allows parent components to finish their forceUpdate/render cycle
+          // before children try to update parent props.
+          queueMicrotask(() => {
+            (this as any).mountedCallback();
+          });
+        }
+      };
+
+      // 3. Set up effects AFTER super (so Lit/FAST is initialized).
+      // Hydrating elements the parser connects before their children mount once the document is parsed.
+      let connected = true;
+      try {
+        connected = controller.onConnected(mount);
+      } finally {
+        // A render error without a boundary is rethrown after the element is mounted
+        if (connected) mount();
       }
     }
 
@@ -164,6 +220,40 @@ export function HTMLPropsMixin<T extends Constructor, POrConfig = {}>(
       this[PROPS_CONTROLLER]?.attributeChangedCallback(name, oldVal, newVal);
     }
 
+    formResetCallback() {
+      // @ts-ignore
+      if (super.formResetCallback) super.formResetCallback();
+      this[PROPS_CONTROLLER].formReset();
+    }
+
+    formDisabledCallback(disabled: boolean) {
+      // @ts-ignore
+      if (super.formDisabledCallback) super.formDisabledCallback(disabled);
+      this[PROPS_CONTROLLER].formDisabled(disabled);
+    }
+
+    formStateRestoreCallback(state: any, mode: string) {
+      // @ts-ignore
+      if (super.formStateRestoreCallback) super.formStateRestoreCallback(state, mode);
+      this[PROPS_CONTROLLER].formStateRestore(state);
+    }
+
+    /** ElementInternals of form-associated components, null otherwise */
+    get internals(): ElementInternals | null {
+      return this[PROPS_CONTROLLER]?.internals ?? null;
+    }
+
+    /**
+     * Set the validity of a form-associated component. Call without flags to mark it valid.
+     */
+    setValidity(flags: ValidityStateFlags = {}, message?: string, anchor?: HTMLElement) {
+      if (!this.internals) {
+        devWarn(`setValidity() on <${this.localName}> requires the formAssociated option`);
+        return;
+      }
+      this.internals.setValidity(flags, message, anchor);
+    }
+
     requestUpdate() {
       // If parent has requestUpdate (e.g., Lit), delegate to it and skip our logic
       // @ts-ignore
@@ -176,6 +266,14 @@ export function HTMLPropsMixin<T extends Constructor, POrConfig = {}>(
       this[PROPS_CONTROLLER]?.requestUpdate();
     }
 
+    get updateComplete(): Promise<any> {
+      // If parent has updateComplete (e.g., Lit), delegate to it
+      // @ts-ignore
+      const parentUpdateComplete = super.updateComplete;
+      if (parentUpdateComplete) return parentUpdateComplete;
+      return this[PROPS_CONTROLLER]?.updateComplete ?? Promise.resolve();
+    }
+
     defaultUpdate() {
       // @ts-ignore
       if (super.defaultUpdate) super.defaultUpdate();
@@ -188,6 +286,14 @@ export function HTMLPropsMixin<T extends Constructor, POrConfig = {}>(
       this[PROPS_CONTROLLER]?.forceUpdate();
     }
 
+    provide(context: Context<unknown>, value: unknown) {
+      return this[PROPS_CONTROLLER].provide(context, value);
+    }
+
+    consume(context: Context<unknown>) {
+      return this[PROPS_CONTROLLER].consume(context);
+    }
+
     get content() {
       return this[PROPS_CONTROLLER]?.props?.content;
     }
@@ -230,6 +336,24 @@ export function HTMLPropsMixin<T extends Constructor, POrConfig = {}>(
     }
 
     (HTMLPropsElement as any).__propsConfig = mergedConfig;
+
+    // Must be set before customElements.define() to take part in forms
+    if (mergedConfig.formAssociated) {
+      (HTMLPropsElement as any).formAssociated = true;
+    }
+
+    // Named slot content props, reconciled into the Light DOM like `content`
+    for (const name of Array.isArray(mergedConfig.slots) ? mergedConfig.slots as string[] : []) {
+      Object.defineProperty(HTMLPropsElement.prototype, name, {
+        get(this: HTMLPropsElement) {
+          return this[PROPS_CONTROLLER]?.props[name];
+        },
+        set(this: HTMLPropsElement, value: Node | Node[] | undefined) {
+          this[PROPS_CONTROLLER]?.setSlotContent(name, value);
+        },
+        configurable: true,
+      });
+    }
   }
 
   return HTMLPropsElement as any;
@@ -3,3 +3,11 @@ export * from './controller.ts';
 export * from './mixin.ts';
 export * from './ref.ts';
 export * from './prop.ts';
+export * from './repeat.ts';
+export * from './context.ts';
+export * from './converters.ts';
+export * from './ssr.ts';
+export * from './devtools.ts';
+export { css, CSSResult, type CSSStyles, supportsAdoptingStyleSheets } from './styles.ts';
+export { isDevMode, setDevMode } from './dev.ts';
+export { getProfilingStats, isProfiling, type ProfilingStats, resetProfilingStats, setProfiling } from './profiling.ts';
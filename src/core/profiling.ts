@@ -0,0 +1,132 @@
+/**
+ * Render and reconcile counters, collected while profiling is enabled.
+ */
+export interface ProfilingStats {
+  /** Number of render() calls */
+  renders: number;
+  /** Time spent in render(), in milliseconds */
+  renderTime: number;
+  /** Number of top-level reconcile passes. Nested passes for child elements are part of their parent pass. */
+  reconciles: number;
+  /** Time spent in top-level reconcile passes, in milliseconds */
+  reconcileTime: number;
+  inserted: number;
+  moved: number;
+  /** Matched nodes that were updated in place */
+  morphed: number;
+  removed: number;
+  /** Matches found by each matching phase */
+  matchedByKey: number;
+  matchedById: number;
+  matchedByEquality: number;
+  matchedByTag: number;
+}
+
+/** Counters of a single reconcile pass, added to the totals */
+type ReconcileCounts = Pick<
+  ProfilingStats,
+  'inserted' | 'moved' | 'morphed' | 'removed' | 'matchedByKey' | 'matchedById' | 'matchedByEquality' | 'matchedByTag'
+>;
+
+let profiling = false;
+let stats = createStats();
+let reconcileDepth = 0;
+
+function createStats(): ProfilingStats {
+  return {
+    renders: 0,
+    renderTime: 0,
+    reconciles: 0,
+    reconcileTime: 0,
+    inserted: 0,
+    moved: 0,
+    morphed: 0,
+    removed: 0,
+    matchedByKey: 0,
+    matchedById: 0,
+    matchedByEquality: 0,
+    matchedByTag: 0,
+  };
+}
+
+/**
+ * Enable or disable profiling.
+ * While enabled, every render and top-level reconcile pass adds a User Timing measure
+ * (`html-props:render <tag>`, `html-props:reconcile <tag>`) that shows up in the browser's performance panel,
+ * and the counters returned by getProfilingStats() are updated.
+ *
+ * @example
+ * ```ts
+ * setProfiling(true);
+ * list.items = shuffled;
+ * await list.updateComplete;
+ * console.table(getProfilingStats());
+ * ```
+ */
+export function setProfiling(enabled: boolean): void {
+  profiling = enabled;
+}
+
+/**
+ * Check whether profiling is enabled.
+ */
+export function isProfiling(): boolean {
+  return profiling;
+}
+
+/**
+ * Get a snapshot of the counters collected since profiling was enabled or last reset.
+ */
+export function getProfilingStats(): ProfilingStats {
+  return { ...stats };
+}
+
+/**
+ * Reset all profiling counters to zero.
+ */
+export function resetProfilingStats(): void {
+  stats = createStats();
+}
+
+/**
+ * Record a render() call that started at `start`.
+ */
+export function recordRender(tagName: string, start: number): void {
+  const end = performance.now();
+  stats.renders++;
+  stats.renderTime += end - start;
+  performance.measure(`html-props:render ${tagName}`, { start, end });
+}
+
+/**
+ * Start a reconcile pass. Returns the start time of top-level passes, null for nested ones.
+ */
+export function startReconcile(): number | null {
+  return reconcileDepth++ === 0 ? performance.now() : null;
+}
+
+/**
+ * End a reconcile pass started with startReconcile().
+ */
+export function endReconcile(tagName: string, start: number | null): void {
+  reconcileDepth--;
+  if (start === null) return;
+  const end = performance.now();
+  stats.reconciles++;
+  stats.reconcileTime += end - start;
+  performance.measure(`html-props:reconcile ${tagName}`, { start, end });
+}
+
+/**
+ * Add the operations of a reconcile pass to the counters.
+ */
+export function recordReconcileCounts(counts: ReconcileCounts): void {
+  stats.inserted += counts.inserted;
+  stats.moved += counts.moved;
+  stats.morphed += counts.morphed;
+  stats.removed += counts.removed;
+  stats.matchedByKey += counts.matchedByKey;
+  stats.matchedById += counts.matchedById;
+  stats.matchedByEquality += counts.matchedByEquality;
+  stats.matchedByTag += counts.matchedByTag;
+}
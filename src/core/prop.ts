@@ -1,4 +1,4 @@
-import type { Prop, PropConfig } from './types.ts';
+import type { ComputedConfig, Prop, PropConfig } from './types.ts';
 
 /**
  * Helper to define a property with an explicit type and default value.
@@ -11,10 +11,31 @@ import type { Prop, PropConfig } from './types.ts';
  */
 export function prop<T>(
   defaultValue: T,
-  config: Omit<PropConfig, 'default'> = {},
+  config: Omit<PropConfig, 'default' | 'validate'> & { validate?: (value: T) => boolean | string } = {},
 ): Prop<T> {
   return {
     default: defaultValue,
     ...config,
   };
 }
+
+/**
+ * Helper to define a computed prop: a read-only value derived from other props.
+ * It is computed on first read and recomputed when the props it reads change.
+ *
+ * @example
+ * ```ts
+ * first: prop('Ada'),
+ * last: prop('Lovelace'),
+ * fullName: computed((host) => `${host.first} ${host.last}`, { attribute: 'full-name' })
+ * ```
+ */
+export function computed<T>(
+  fn: (host: any) => T,
+  config: Omit<ComputedConfig<T>, 'computed'> = {},
+): ComputedConfig<T> {
+  return {
+    computed: fn,
+    ...config,
+  };
+}
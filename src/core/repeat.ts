@@ -0,0 +1,45 @@
+import { PropsController } from './controller.ts';
+import { devWarn } from './dev.ts';
+
+/**
+ * Render a keyed list.
+ * Each node returned by `template` is keyed by `keyFn`, so reconciliation keeps
+ * element identity (and state like focus or input values) when items are reordered,
+ * inserted or removed.
+ *
+ * @example
+ * ```ts
+ * render() {
+ *   return new Ul({
+ *     content: repeat(this.todos, (todo) => todo.id, (todo) => new Li({ textContent: todo.text })),
+ *   });
+ * }
+ * ```
+ */
+export function repeat<T>(
+  items: Iterable<T>,
+  keyFn: (item: T, index: number) => string | number,
+  template: (item: T, index: number) => Node | string | number | null | undefined,
+): Node[] {
+  const nodes: Node[] = [];
+  const seen = new Set<string | number>();
+  let index = 0;
+
+  for (const item of items) {
+    const key = keyFn(item, index);
+    if (seen.has(key)) {
+      devWarn(`repeat() received duplicate key "${key}", element identity may not be preserved`);
+    }
+    seen.add(key);
+
+    const result = template(item, index);
+    index++;
+    if (result === null || result === undefined) continue;
+
+    const node = typeof result === 'object' ? result : document.createTextNode(String(result));
+    PropsController.setNodeKey(node, key);
+    nodes.push(node);
+  }
+
+  return nodes;
+}
@@ -0,0 +1,233 @@
+import { allRendered, HYDRATE_ATTRIBUTE, PROPS_CONTROLLER, type PropsController } from './controller.ts';
+import { getClassStyles, getStyleText, STYLES_ATTRIBUTE } from './styles.ts';
+import type { HTMLElementLike } from './types.ts';
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+const COMMENT_NODE = 8;
+const DOCUMENT_FRAGMENT_NODE = 11;
+
+/** Elements that never have a closing tag */
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'source',
+  'track',
+  'wbr',
+]);
+
+/** Elements whose text content is serialized without escaping */
+const RAW_TEXT_ELEMENTS = new Set([
+  'script',
+  'style',
+  'xmp',
+  'iframe',
+  'noembed',
+  'noframes',
+  'plaintext',
+]);
+
+interface ServerNode extends Node {
+  [PROPS_CONTROLLER]?: PropsController;
+}
+
+/**
+ * Render html-props components to an HTML string.
+ *
+ * Each props-controlled element in the tree is rendered (render() output or props-based content)
+ * and its reflected attributes are applied before it is serialized. Components with a shadow root
+ * are emitted as Declarative Shadow DOM (`<template shadowrootmode>`), and customized built-ins
+ * get an `is` attribute so they upgrade on the client.
+ *
+ * Requires a DOM implementation (the browser, or a server-side DOM installed as globals).
+ *
+ * @example
+ * ```ts
+ * const html = renderToString(new MyPage({ title: 'Home' }));
+ * ```
+ */
+export function renderToString(input: Node | Node[] | null | undefined): string {
+  if (input == null) return '';
+  const nodes = Array.isArray(input) ? input : [input];
+  let html = '';
+  for (const node of nodes) {
+    html += serializeNode(node as ServerNode);
+  }
+  return html;
+}
+
+/**
+ * Render html-props components to an HTML string once every async render() has resolved,
+ * so the markup contains the resolved content instead of fallback() output.
+ *
+ * @example
+ * ```ts
+ * const html = await renderToStringAsync(new ProductPage({ id: 42 }));
+ * ```
+ */
+export async function renderToStringAsync(input: Node | Node[] | null | undefined): Promise<string> {
+  if (input == null) return '';
+  const nodes = Array.isArray(input) ? input : [input];
+  // Resolved content may contain further async components, render until nothing is pending
+  while (prerenderTree(nodes)) {
+    await allRendered(nodes);
+  }
+  return renderToString(nodes);
+}
+
+function serializeNode(node: ServerNode): string {
+  switch (node.nodeType) {
+    case ELEMENT_NODE:
+      return serializeElement(node as unknown as Element & ServerNode);
+    case TEXT_NODE: {
+      const parentName = (node.parentNode as Element | null)?.localName;
+      const text = node.nodeValue ?? '';
+      return parentName && RAW_TEXT_ELEMENTS.has(parentName) ? text : escapeText(text);
+    }
+    case COMMENT_NODE:
+      return `<!--${node.nodeValue ?? ''}-->`;
+    case DOCUMENT_FRAGMENT_NODE:
+      return serializeChildren(node);
+    default:
+      return '';
+  }
+}
+
+function serializeElement(element: Element & ServerNode): string {
+  const controller = element[PROPS_CONTROLLER];
+  if (controller) {
+    prerender(element, controller);
+  }
+
+  const tagName = element.localName;
+  let html = `<${tagName}`;
+
+  const isName = getCustomizedBuiltInName(element);
+  if (isName) {
+    html += ` is="${escapeAttribute(isName)}"`;
+  }
+
+  for (let i = 0; i < element.attributes.length; i++) {
+    const { name, value } = element.attributes[i]!;
+    html += value === '' ? ` ${name}` : ` ${name}="${escapeAttribute(value)}"`;
+  }
+
+  // Components with render() adopt this markup on the client instead of replacing it
+  if (controller && hasRender(element) && !element.hasAttribute(HYDRATE_ATTRIBUTE)) {
+    html += ` ${HYDRATE_ATTRIBUTE}`;
+  }
+  html += '>';
+
+  if (VOID_ELEMENTS.has(tagName)) return html;
+
+  const shadowRoot = element.shadowRoot;
+  if (shadowRoot) {
+    html += `<template shadowrootmode="${shadowRoot.mode}"`;
+    if (shadowRoot.delegatesFocus) html += ' shadowrootdelegatesfocus';
+    html += '>';
+    // Static styles are adopted on the client, inline them so the first paint is styled
+    if (controller && !shadowRoot.querySelector(`style[${STYLES_ATTRIBUTE}]`)) {
+      for (const style of getClassStyles(element.constructor as object)) {
+        html += `<style ${STYLES_ATTRIBUTE}>${getStyleText(style)}</style>`;
+      }
+    }
+    html += serializeChildren(shadowRoot);
+    html += '</template>';
+  }
+
+  if (tagName === 'template') {
+    html += serializeChildren((element as HTMLTemplateElement).content);
+  } else {
+    html += serializeChildren(element);
+  }
+
+  return html + `</${tagName}>`;
+}
+
+function serializeChildren(parent: Node): string {
+  let html = '';
+  for (const child of Array.from(parent.childNodes)) {
+    html += serializeNode(child as ServerNode);
+  }
+  return html;
+}
+
+/**
+ * Render a props-controlled element in place, without connecting it.
+ * Mirrors connectedCallback: Light DOM content first, then render().
+ * Elements that already rendered (e.g. live DOM) are left untouched.
+ */
+function prerender(element: Element, controller: PropsController) {
+  if (controller.currentRender === null) {
+    controller.applyLightDomContent(element as unknown as HTMLElementLike);
+    controller.forceUpdate();
+  }
+  controller.reflectAttributes();
+}
+
+/**
+ * Prerender all props-controlled elements in the given trees.
+ * Returns whether any of them is still updating.
+ */
+function prerenderTree(nodes: Node[]): boolean {
+  let updating = false;
+  for (const node of nodes) {
+    const controller = (node as ServerNode)[PROPS_CONTROLLER];
+    if (controller) {
+      prerender(node as Element, controller);
+      updating ||= controller.isUpdating;
+    }
+    const children = [
+      ...Array.from((node as Element).shadowRoot?.childNodes ?? []),
+      ...Array.from(node.childNodes),
+    ];
+    if (prerenderTree(children)) updating = true;
+  }
+  return updating;
+}
+
+function hasRender(element: Element): boolean {
+  return typeof (element as Element & { render?: unknown }).render === 'function';
+}
+
+/**
+ * Get the `is` value for customized built-in elements (e.g. `<div is="html-div">`).
+ * Returns null for autonomous custom elements and elements that already carry an `is` attribute.
+ */
+function getCustomizedBuiltInName(element: Element): string | null {
+  if (element.hasAttribute('is')) return null;
+  if (typeof customElements === 'undefined') return null;
+
+  const registry = customElements as CustomElementRegistry & {
+    getName?(constructor: CustomElementConstructor): string | null;
+  };
+  const constructor = element.constructor as CustomElementConstructor & { __tagName?: string };
+  const name = registry.getName?.(constructor) ??
+    (Object.hasOwn(constructor, '__tagName') ? constructor.__tagName : null);
+
+  if (!name || name === element.localName) return null;
+  return name;
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\u00a0/g, '&nbsp;');
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/\u00a0/g, '&nbsp;');
+}
@@ -0,0 +1,129 @@
+/** Marks `<style>` elements that hold component styles rather than render() output */
+export const STYLES_ATTRIBUTE = 'data-html-props-styles';
+
+/**
+ * Check whether shadow roots support adoptedStyleSheets with constructable stylesheets.
+ */
+export function supportsAdoptingStyleSheets(): boolean {
+  return typeof ShadowRoot !== 'undefined' &&
+    typeof CSSStyleSheet !== 'undefined' &&
+    'adoptedStyleSheets' in ShadowRoot.prototype &&
+    'replaceSync' in CSSStyleSheet.prototype;
+}
+
+/**
+ * CSS created with the `css` tagged template.
+ * The constructable stylesheet is created lazily and shared by every shadow root that adopts it.
+ */
+export class CSSResult {
+  readonly cssText: string;
+  private sheet: CSSStyleSheet | null = null;
+
+  constructor(cssText: string) {
+    this.cssText = cssText;
+  }
+
+  /** The shared stylesheet, or null where constructable stylesheets are unavailable. */
+  get styleSheet(): CSSStyleSheet | null {
+    if (!supportsAdoptingStyleSheets()) return null;
+    if (!this.sheet) {
+      this.sheet = new CSSStyleSheet();
+      this.sheet.replaceSync(this.cssText);
+    }
+    return this.sheet;
+  }
+
+  toString(): string {
+    return this.cssText;
+  }
+}
+
+/** Value accepted by a component's static `styles` field */
+export type CSSStyles = CSSResult | CSSStyleSheet | CSSStyles[];
+
+/**
+ * Tagged template for component styles. Interpolated `css` results are inlined.
+ *
+ * @example
+ * ```ts
+ * const color = css`red`;
+ *
+ * class MyCard extends HTMLPropsMixin(HTMLElement, { shadow: true }) {
+ *   static styles = css`:host { display: block; color: ${color}; }`;
+ * }
+ * ```
+ */
+export function css(strings: TemplateStringsArray, ...values: (CSSResult | string | number)[]): CSSResult {
+  const cssText = strings.reduce((text, string, i) => text + string + (i < values.length ? String(values[i]) : ''), '');
+  return new CSSResult(cssText);
+}
+
+/** Flattened styles per component class */
+const classStyles = new WeakMap<object, (CSSResult | CSSStyleSheet)[]>();
+
+/**
+ * Get the flattened static `styles` of a component class.
+ * Computed once per class.
+ */
+export function getClassStyles(constructor: { styles?: CSSStyles }): (CSSResult | CSSStyleSheet)[] {
+  let styles = classStyles.get(constructor);
+  if (!styles) {
+    styles = [];
+    flattenStyles(constructor.styles, styles);
+    classStyles.set(constructor, styles);
+  }
+  return styles;
+}
+
+function flattenStyles(styles: CSSStyles | undefined, result: (CSSResult | CSSStyleSheet)[]) {
+  if (!styles) return;
+  if (Array.isArray(styles)) {
+    styles.forEach((style) => flattenStyles(style, result));
+  } else {
+    result.push(styles);
+  }
+}
+
+/**
+ * Get the CSS text of a style, e.g. for `<style>` elements.
+ */
+export function getStyleText(style: CSSResult | CSSStyleSheet): string {
+  if (style instanceof CSSResult) return style.cssText;
+  return Array.from(style.cssRules, (rule) => rule.cssText).join('\n');
+}
+
+/**
+ * Check if a node is a `<style>` element that was added for component styles.
+ */
+export function isStyleElement(node: Node): boolean {
+  return node.nodeType === 1 && (node as Element).localName === 'style' &&
+    (node as Element).hasAttribute(STYLES_ATTRIBUTE);
+}
+
+/**
+ * Apply styles to a shadow root.
+ * Uses adoptedStyleSheets where available and falls back to `<style>` elements.
+ * Server-rendered `<style>` elements are replaced by the adopted stylesheets.
+ */
+export function adoptStyles(root: ShadowRoot, styles: (CSSResult | CSSStyleSheet)[]): void {
+  if (styles.length === 0) return;
+  const existing = Array.from(root.childNodes).filter(isStyleElement);
+
+  if (supportsAdoptingStyleSheets()) {
+    const sheets = styles.map((style) => (style instanceof CSSResult ? style.styleSheet! : style));
+    root.adoptedStyleSheets = [...root.adoptedStyleSheets.filter((sheet) => !sheets.includes(sheet)), ...sheets];
+    existing.forEach((element) => element.remove());
+    return;
+  }
+
+  // Keep server-rendered styles
+  if (existing.length > 0) return;
+
+  const elements = styles.map((style) => {
+    const element = document.createElement('style');
+    element.setAttribute(STYLES_ATTRIBUTE, '');
+    element.textContent = getStyleText(style);
+    return element;
+  });
+  root.prepend(...elements);
+}
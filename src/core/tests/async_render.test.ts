@@ -0,0 +1,208 @@
+/**
+ * Async Render Tests (Playwright)
+ *
+ * Tests render() returning a Promise: fallback() content, stale results, errors,
+ * and waiting for whole trees of async components.
+ *
+ * @module
+ */
+
+import { assertEquals } from '@std/assert';
+import { loadTestPage, setupBrowser, teardownBrowser, TEST_OPTIONS, type TestContext } from '../../test-utils/mod.ts';
+
+let ctx: TestContext;
+
+Deno.test({
+  name: 'Async Render Tests',
+  ...TEST_OPTIONS,
+
+  async fn(t) {
+    ctx = await setupBrowser();
+
+    await t.step('shows fallback() until the result resolves and discards stale results', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import type { RenderOptions } from "./src/core/mod.ts";
+
+          // Results are resolved manually by the test, in any order
+          const requests: { id: number; signal: AbortSignal; resolve: () => void }[] = [];
+
+          class UserCard extends HTMLPropsMixin(HTMLElement, {
+            userId: prop(1),
+          }) {
+            updates: number[] = [];
+
+            async render({ signal }: RenderOptions) {
+              const id = this.userId;
+              await new Promise<void>((resolve) => requests.push({ id, signal, resolve }));
+              return new Span({ textContent: \`User \${id}\` });
+            }
+
+            fallback() {
+              return new Span({ textContent: "Loading..." });
+            }
+
+            updated(changed: Map<string, unknown>) {
+              this.updates.push(changed.get("userId") as number);
+            }
+          }
+          customElements.define("user-card", UserCard);
+
+          const el = new UserCard() as any;
+          document.body.appendChild(el);
+          (window as any).el = el;
+          (window as any).requests = requests;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const { el, requests } = window as any;
+        const initial = el.textContent;
+
+        requests[0].resolve();
+        await el.updateComplete;
+        const resolved = el.textContent;
+        const span = el.firstChild;
+
+        // Start two renders, then resolve the stale one last
+        el.userId = 2;
+        await Promise.resolve();
+        el.userId = 3;
+        await Promise.resolve();
+        const pending = el.textContent;
+        const done = el.updateComplete;
+        requests[2].resolve();
+        requests[1].resolve();
+        await done;
+
+        return {
+          initial,
+          resolved,
+          pending,
+          final: el.textContent,
+          sameNode: el.firstChild === span,
+          aborted: requests.map((request: any) => request.signal.aborted),
+          updates: el.updates,
+        };
+      });
+
+      assertEquals(result.initial, 'Loading...');
+      assertEquals(result.resolved, 'User 1');
+      assertEquals(result.pending, 'Loading...');
+      assertEquals(result.final, 'User 3');
+      assertEquals(result.sameNode, true);
+      assertEquals(result.aborted, [false, true, false]);
+      assertEquals(result.updates, [undefined, 1]);
+    });
+
+    await t.step('keeps content without fallback() and passes rejections to error boundaries', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          class Results extends HTMLPropsMixin(HTMLElement, {
+            query: prop("a"),
+          }) {
+            async render() {
+              const query = this.query;
+              await Promise.resolve();
+              if (query === "fail") throw new Error("Search failed");
+              return new Span({ textContent: \`Results for \${query}\` });
+            }
+          }
+          customElements.define("search-results", Results);
+
+          class Boundary extends HTMLPropsMixin(HTMLElement, {}) {
+            renderError(error: unknown) {
+              return new Span({ textContent: \`Error: \${(error as Error).message}\` });
+            }
+          }
+          customElements.define("search-boundary", Boundary);
+
+          const boundary = new Boundary();
+          const results = new Results() as any;
+          boundary.appendChild(results);
+          document.body.appendChild(boundary);
+          (window as any).boundary = boundary;
+          (window as any).results = results;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const { boundary, results } = window as any;
+        await results.updateComplete;
+        const first = results.textContent;
+
+        results.query = 'b';
+        await Promise.resolve();
+        const pending = results.textContent;
+        await results.updateComplete;
+        const second = results.textContent;
+
+        results.query = 'fail';
+        await results.updateComplete;
+        await boundary.updateComplete;
+
+        return { first, pending, second, error: boundary.textContent };
+      });
+
+      assertEquals(result.first, 'Results for a');
+      assertEquals(result.pending, 'Results for a');
+      assertEquals(result.second, 'Results for b');
+      assertEquals(result.error, 'Error: Search failed');
+    });
+
+    await t.step('allRendered() and renderToStringAsync() wait for nested async components', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { allRendered, renderToStringAsync } from "./src/core/mod.ts";
+
+          const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+          class Comment extends HTMLPropsMixin(HTMLElement, {
+            text: prop(""),
+          }) {
+            async render() {
+              const text = this.text;
+              await delay(5);
+              return new Li({ textContent: text });
+            }
+
+            fallback() {
+              return new Li({ textContent: "..." });
+            }
+          }
+          customElements.define("async-comment", Comment);
+
+          class Thread extends HTMLPropsMixin(HTMLElement, {}) {
+            async render() {
+              await delay(5);
+              return [new Comment({ text: "First" }), new Comment({ text: "Second" })];
+            }
+          }
+          customElements.define("async-thread", Thread);
+
+          const thread = new Thread();
+          document.body.appendChild(thread);
+          (window as any).live = allRendered(thread).then(() => thread.innerHTML);
+          (window as any).html = renderToStringAsync(new Thread());
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const { live, html } = window as any;
+        return { live: await live, html: await html };
+      });
+
+      const comments = '<async-comment><li is="html-li">First</li></async-comment>' +
+        '<async-comment><li is="html-li">Second</li></async-comment>';
+      assertEquals(result.live, comments);
+      assertEquals(
+        result.html,
+        `<async-thread data-hydrate>${
+          comments.replaceAll('<async-comment>', '<async-comment data-hydrate>')
+        }</async-thread>`,
+      );
+    });
+
+    await teardownBrowser(ctx);
+  },
+});
@@ -0,0 +1,156 @@
+/**
+ * Attrs Prop Tests (Playwright)
+ *
+ * Tests the `attrs` prop and stale attribute/dataset removal during reconciliation.
+ *
+ * @module
+ */
+
+import { assertEquals } from '@std/assert';
+import { loadTestPage, setupBrowser, teardownBrowser, TEST_OPTIONS, type TestContext } from '../../test-utils/mod.ts';
+
+let ctx: TestContext;
+
+Deno.test({
+  name: 'Attrs Prop Tests',
+  ...TEST_OPTIONS,
+
+  async fn(t) {
+    ctx = await setupBrowser();
+
+    await t.step('sets aria-*, role and other attributes', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          const el = new Div({
+            attrs: {
+              role: "dialog",
+              "aria-label": "Settings",
+              "aria-modal": true,
+              part: "panel",
+              tabindex: 0,
+              popover: "auto",
+              hidden: false,
+              title: null,
+            },
+          });
+
+          (window as any).result = Array.from(el.attributes, (attr) => \`\${attr.name}=\${attr.value}\`);
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result, [
+        'role=dialog',
+        'aria-label=Settings',
+        'aria-modal=',
+        'part=panel',
+        'tabindex=0',
+        'popover=auto',
+      ]);
+    });
+
+    await t.step('removes attributes and dataset keys missing from the next render', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          class ExpandableItem extends HTMLPropsMixin(HTMLElement, {
+            expanded: prop(false),
+          }) {
+            render() {
+              return new Button({
+                attrs: this.expanded
+                  ? { "aria-expanded": "true", "aria-controls": "panel" }
+                  : { "aria-expanded": "false" },
+                dataset: this.expanded ? { state: "open", level: "1" } : { state: "closed" },
+              });
+            }
+          }
+          customElements.define("expandable-item", ExpandableItem);
+
+          const el = new ExpandableItem() as any;
+          document.body.appendChild(el);
+          // Added by third-party code
+          el.querySelector("button").setAttribute("aria-describedby", "hint");
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = (window as any).el;
+        const button = el.querySelector('button');
+        const attrs = () =>
+          Array.from(button.attributes as NamedNodeMap, (attr) => `${attr.name}=${attr.value}`).sort();
+
+        el.expanded = true;
+        await el.updateComplete;
+        const expanded = attrs();
+
+        el.expanded = false;
+        await el.updateComplete;
+
+        return { expanded, collapsed: attrs(), sameButton: el.querySelector('button') === button };
+      });
+
+      assertEquals(result.expanded, [
+        'aria-controls=panel',
+        'aria-describedby=hint',
+        'aria-expanded=true',
+        'data-level=1',
+        'data-state=open',
+      ]);
+      assertEquals(result.collapsed, [
+        'aria-describedby=hint',
+        'aria-expanded=false',
+        'data-state=closed',
+      ]);
+      assertEquals(result.sameButton, true);
+    });
+
+    await t.step('keeps default attrs and dataset from the config', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          class Tab extends HTMLPropsMixin(HTMLElement, {
+            attrs: { role: "tab" },
+            dataset: { kind: "tab" },
+          }) {}
+          customElements.define("attrs-tab", Tab);
+
+          class Tabs extends HTMLPropsMixin(HTMLElement, {
+            selected: prop(false),
+          }) {
+            render() {
+              return new Tab({
+                attrs: this.selected ? { "aria-selected": "true" } : {},
+                dataset: this.selected ? { selected: "" } : {},
+              });
+            }
+          }
+          customElements.define("attrs-tabs", Tabs);
+
+          const el = new Tabs() as any;
+          document.body.appendChild(el);
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = (window as any).el;
+        const tab = el.querySelector('attrs-tab');
+        const attrs = () => Array.from(tab.attributes as NamedNodeMap, (attr) => attr.name).sort();
+
+        el.selected = true;
+        await el.updateComplete;
+        const selected = attrs();
+
+        el.selected = false;
+        await el.updateComplete;
+
+        return { selected, deselected: attrs() };
+      });
+
+      assertEquals(result.selected, ['aria-selected', 'data-kind', 'data-selected', 'role']);
+      assertEquals(result.deselected, ['data-kind', 'role']);
+    });
+
+    await teardownBrowser(ctx);
+  },
+});
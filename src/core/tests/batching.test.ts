@@ -65,6 +65,7 @@ Deno.test({
           const PROPS_CONTROLLER = Symbol.for("html-props:controller");
           const controller = el[PROPS_CONTROLLER];
           controller.applyCustomProps(newEl[PROPS_CONTROLLER].props);
+          await el.updateComplete;
 
           (window as any).result = {
             renderCount,
@@ -185,6 +186,7 @@ Deno.test({
           const PROPS_CONTROLLER = Symbol.for("html-props:controller");
           const controller = el[PROPS_CONTROLLER];
           controller.applyCustomProps({ x: 10, y: 10 });
+          await el.updateComplete;
 
           (window as any).result = {
             renderCount,
@@ -251,6 +253,150 @@ Deno.test({
       );
     });
 
+    await t.step('setting several props schedules a single render in a microtask', async () => {
+      await ctx.page.reload();
+      await loadTestPage(ctx.page, {
+        code: `
+          let renderCount = 0;
+
+          class ScheduledElement extends HTMLPropsMixin(HTMLElement, {
+            a: prop(0),
+            b: prop(0),
+            c: prop(0),
+          }) {
+            render() {
+              renderCount++;
+              return document.createTextNode(\`\${this.a}-\${this.b}-\${this.c}\`);
+            }
+          }
+
+          customElements.define("scheduled-element", ScheduledElement);
+
+          const el = new ScheduledElement();
+          document.body.appendChild(el);
+          const initialRenders = renderCount;
+          const initialText = el.textContent;
+
+          el.a = 1;
+          el.b = 2;
+          el.c = 3;
+          const syncRenders = renderCount;
+          const syncText = el.textContent;
+
+          await el.updateComplete;
+
+          (window as any).result = {
+            initialRenders,
+            initialText,
+            syncRenders,
+            syncText,
+            finalRenders: renderCount,
+            finalText: el.textContent,
+          };
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+
+      // First render is synchronous on connect
+      assertEquals(result.initialRenders, 1);
+      assertEquals(result.initialText, '0-0-0');
+      // Prop changes are deferred
+      assertEquals(result.syncRenders, 1);
+      assertEquals(result.syncText, '0-0-0');
+      // ...and coalesced into one render
+      assertEquals(result.finalRenders, 2);
+      assertEquals(result.finalText, '1-2-3');
+    });
+
+    await t.step('updateComplete resolves after nested components are reconciled', async () => {
+      await ctx.page.reload();
+      await loadTestPage(ctx.page, {
+        code: `
+          class ChildLabel extends HTMLPropsMixin(HTMLElement, {
+            text: prop(""),
+          }) {
+            render() {
+              return new Span({ textContent: this.text });
+            }
+          }
+          customElements.define("child-label", ChildLabel);
+
+          class ParentLabel extends HTMLPropsMixin(HTMLElement, {
+            text: prop("initial"),
+          }) {
+            render() {
+              return new ChildLabel({ text: this.text.toUpperCase() });
+            }
+          }
+          customElements.define("parent-label", ParentLabel);
+
+          const el = new ParentLabel();
+          document.body.appendChild(el);
+
+          const idle = await Promise.race([
+            el.updateComplete.then(() => "resolved"),
+            new Promise((resolve) => setTimeout(() => resolve("pending"), 50)),
+          ]);
+
+          el.text = "updated";
+          await el.updateComplete;
+
+          (window as any).result = {
+            idle,
+            text: el.querySelector("span")?.textContent,
+          };
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+
+      assertEquals(result.idle, 'resolved');
+      assertEquals(result.text, 'UPDATED');
+    });
+
+    await t.step('flushSync() runs pending updates synchronously', async () => {
+      await ctx.page.reload();
+      await loadTestPage(ctx.page, {
+        code: `
+          import { flushSync } from "./src/core/mod.ts";
+
+          let renderCount = 0;
+
+          class FlushElement extends HTMLPropsMixin(HTMLElement, {
+            width: prop(10),
+          }) {
+            render() {
+              renderCount++;
+              return new Div({ style: { width: \`\${this.width}px\` } });
+            }
+          }
+          customElements.define("flush-element", FlushElement);
+
+          const el = new FlushElement();
+          document.body.appendChild(el);
+
+          el.width = 20;
+          flushSync();
+          const afterFlush = (el.firstChild as HTMLElement).style.width;
+
+          flushSync(() => {
+            el.width = 30;
+            el.width = 40;
+          });
+          const afterCallback = (el.firstChild as HTMLElement).style.width;
+
+          (window as any).result = { afterFlush, afterCallback, renderCount };
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+
+      assertEquals(result.afterFlush, '20px');
+      assertEquals(result.afterCallback, '40px');
+      assertEquals(result.renderCount, 3);
+    });
+
     // Teardown
     await teardownBrowser(ctx);
   },
@@ -0,0 +1,131 @@
+/**
+ * Two-Way Binding Tests (Playwright)
+ *
+ * Tests the `bind` prop that keeps form controls and signals in sync.
+ *
+ * @module
+ */
+
+import { assertEquals } from '@std/assert';
+import { loadTestPage, setupBrowser, teardownBrowser, TEST_OPTIONS, type TestContext } from '../../test-utils/mod.ts';
+
+let ctx: TestContext;
+
+Deno.test({
+  name: 'Two-Way Binding Tests',
+  ...TEST_OPTIONS,
+
+  async fn(t) {
+    ctx = await setupBrowser();
+
+    await t.step('binds text, number, checkbox, select and radio controls', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { Option, Select, TextArea } from "./src/built-ins/mod.ts";
+
+          const name = signal("");
+          const bio = signal("hi");
+          const age = signal<number | null>(1);
+          const agree = signal(false);
+          const color = signal("red");
+          const size = signal("s");
+
+          class ProfileForm extends HTMLPropsMixin(HTMLElement) {
+            render() {
+              return [
+                new Input({ id: "name", bind: name }),
+                new TextArea({ id: "bio", bind: bio }),
+                new Input({ id: "age", type: "number", bind: age }),
+                new Input({ id: "agree", type: "checkbox", bind: agree }),
+                new Select({
+                  id: "color",
+                  bind: color,
+                  content: [
+                    new Option({ value: "red", textContent: "Red" }),
+                    new Option({ value: "blue", textContent: "Blue" }),
+                  ],
+                }),
+                new Input({ id: "size-s", type: "radio", name: "size", value: "s", bind: size }),
+                new Input({ id: "size-m", type: "radio", name: "size", value: "m", bind: size }),
+              ];
+            }
+          }
+          customElements.define("profile-form", ProfileForm);
+
+          document.body.appendChild(new ProfileForm());
+          (window as any).signals = { name, bio, age, agree, color, size };
+        `,
+      });
+
+      const readControls = () =>
+        ctx.page.evaluate(() => {
+          const control = (id: string) => document.getElementById(id) as HTMLInputElement;
+          return [
+            control('name').value,
+            control('bio').value,
+            control('age').value,
+            control('agree').checked,
+            control('color').value,
+            control('size-s').checked,
+            control('size-m').checked,
+          ];
+        });
+      const readSignals = () =>
+        ctx.page.evaluate(() => {
+          const { name, bio, age, agree, color, size } = (window as any).signals;
+          return [name(), bio(), age(), agree(), color(), size()];
+        });
+
+      assertEquals(await readControls(), ['', 'hi', '1', false, 'red', true, false]);
+
+      await ctx.page.fill('#name', 'Ada');
+      await ctx.page.fill('#bio', 'Hello');
+      await ctx.page.fill('#age', '42');
+      await ctx.page.check('#agree');
+      await ctx.page.selectOption('#color', 'blue');
+      await ctx.page.check('#size-m');
+      assertEquals(await readSignals(), ['Ada', 'Hello', 42, true, 'blue', 'm']);
+
+      await ctx.page.evaluate(() => {
+        const { name, age, agree, color, size } = (window as any).signals;
+        name.set('Grace');
+        age.set(null);
+        agree.set(false);
+        color.set('red');
+        size.set('s');
+      });
+      assertEquals(await readControls(), ['Grace', 'Hello', '', false, 'red', true, false]);
+    });
+
+    await t.step('does not update during IME composition', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          const text = signal("");
+          const input = new Input({ bind: text });
+          document.body.appendChild(input);
+          Object.assign(window, { text, input });
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => {
+        const { text, input } = window as any;
+        input.dispatchEvent(new CompositionEvent('compositionstart'));
+        input.value = 'に';
+        input.dispatchEvent(new InputEvent('input', { isComposing: true }));
+        const during = text();
+
+        // Writing the signal must not replace the text being composed
+        text.set('x');
+        const valueDuring = input.value;
+
+        input.value = '日本';
+        input.dispatchEvent(new CompositionEvent('compositionend'));
+        return { during, valueDuring, after: text(), valueAfter: input.value };
+      });
+
+      assertEquals(result, { during: '', valueDuring: 'に', after: '日本', valueAfter: '日本' });
+    });
+
+    await teardownBrowser(ctx);
+  },
+});
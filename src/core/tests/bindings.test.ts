@@ -0,0 +1,120 @@
+/**
+ * Fine-Grained Binding Tests (Playwright)
+ *
+ * Tests signals and functions passed as prop values, bound to a single DOM property.
+ *
+ * @module
+ */
+
+import { assertEquals } from '@std/assert';
+import { loadTestPage, setupBrowser, teardownBrowser, TEST_OPTIONS, type TestContext } from '../../test-utils/mod.ts';
+
+let ctx: TestContext;
+
+Deno.test({
+  name: 'Fine-Grained Binding Tests',
+  ...TEST_OPTIONS,
+
+  async fn(t) {
+    ctx = await setupBrowser();
+
+    await t.step('signals and functions update their property without a render', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          const count = signal(0);
+          const busy = signal(false);
+          const width = signal(10);
+          let renders = 0;
+
+          class Toolbar extends HTMLPropsMixin(HTMLElement) {
+            render() {
+              renders++;
+              return [
+                new Span({ textContent: count }),
+                new Button({ disabled: busy, textContent: "Save" }),
+                new Div({ style: { width: () => width() + "px" } }),
+              ];
+            }
+          }
+          customElements.define("bound-toolbar", Toolbar);
+
+          const el = new Toolbar() as any;
+          document.body.appendChild(el);
+          Object.assign(window, { el, count, busy, width, renders: () => renders });
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const { el, count, busy, width, renders } = window as any;
+        const span = el.querySelector('span');
+        const button = el.querySelector('button');
+        const div = el.querySelector('div');
+        const initial = [span.textContent, button.disabled, div.style.width];
+
+        count.set(5);
+        busy.set(true);
+        width.set(20);
+        await el.updateComplete;
+        const updated = [span.textContent, button.disabled, div.style.width];
+        const sameNodes = el.querySelector('span') === span && el.querySelector('div') === div;
+        const rendered = renders();
+
+        // Bindings stop while disconnected and pick up the current value when connected again
+        el.remove();
+        count.set(6);
+        const disconnected = span.textContent;
+        document.body.appendChild(el);
+        await el.updateComplete;
+
+        return { initial, updated, sameNodes, rendered, disconnected, reconnected: span.textContent };
+      });
+
+      assertEquals(result.initial, ['0', false, '10px']);
+      assertEquals(result.updated, ['5', true, '20px']);
+      assertEquals(result.sameNodes, true);
+      assertEquals(result.rendered, 1);
+      assertEquals(result.disconnected, '5');
+      assertEquals(result.reconnected, '6');
+    });
+
+    await t.step('replacing a bound value with another value disposes the binding', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          const a = signal("a");
+          const b = signal("b");
+
+          class Switcher extends HTMLPropsMixin(HTMLElement, {
+            useB: prop(false),
+          }) {
+            render() {
+              return new Span({ textContent: this.useB ? b : a, title: this.useB ? "static" : a });
+            }
+          }
+          customElements.define("bound-switcher", Switcher);
+
+          const el = new Switcher() as any;
+          document.body.appendChild(el);
+          Object.assign(window, { el, a, b });
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const { el, a, b } = window as any;
+        const span = el.querySelector('span');
+        const before = [span.textContent, span.title];
+
+        el.useB = true;
+        await el.updateComplete;
+        a.set('changed');
+        b.set('b2');
+
+        return { before, after: [span.textContent, span.title] };
+      });
+
+      assertEquals(result.before, ['a', 'a']);
+      assertEquals(result.after, ['b2', 'static']);
+    });
+
+    await teardownBrowser(ctx);
+  },
+});
@@ -0,0 +1,172 @@
+/**
+ * Classes Prop Tests (Playwright)
+ *
+ * Tests the declarative `classes` prop and class diffing during reconciliation.
+ *
+ * @module
+ */
+
+import { assertEquals } from '@std/assert';
+import { loadTestPage, setupBrowser, teardownBrowser, TEST_OPTIONS, type TestContext } from '../../test-utils/mod.ts';
+
+let ctx: TestContext;
+
+Deno.test({
+  name: 'Classes Prop Tests',
+  ...TEST_OPTIONS,
+
+  async fn(t) {
+    ctx = await setupBrowser();
+
+    await t.step('accepts strings, arrays and records', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          const fromString = new Div({ classes: "card  elevated" });
+          const fromArray = new Div({ classes: ["card", false, null, "wide tall"] });
+          const fromRecord = new Div({ classes: { card: true, hidden: false, active: true } });
+
+          (window as any).result = [fromString, fromArray, fromRecord].map((el) => el.className);
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result, ['card elevated', 'card wide tall', 'card active']);
+    });
+
+    await t.step('only toggles classes it applied during re-render', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          class ClassToggle extends HTMLPropsMixin(HTMLElement, {
+            active: prop(false),
+          }) {
+            render() {
+              return new Button({
+                classes: { button: true, active: this.active, inactive: !this.active },
+              });
+            }
+          }
+          customElements.define("class-toggle", ClassToggle);
+
+          const el = new ClassToggle() as any;
+          document.body.appendChild(el);
+          // Added by third-party code
+          el.querySelector("button").classList.add("focus-ring");
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = (window as any).el;
+        const button = el.querySelector('button');
+        const initial = button.className;
+
+        el.active = true;
+        await el.updateComplete;
+        const activated = button.className;
+
+        el.active = false;
+        await el.updateComplete;
+
+        return {
+          initial,
+          activated,
+          deactivated: button.className,
+          sameButton: el.querySelector('button') === button,
+        };
+      });
+
+      assertEquals(result.initial, 'button inactive focus-ring');
+      assertEquals(result.activated, 'button focus-ring active');
+      assertEquals(result.deactivated, 'button focus-ring inactive');
+      assertEquals(result.sameButton, true);
+    });
+
+    await t.step('keeps classes next to className across re-renders', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          class ClassBase extends HTMLPropsMixin(HTMLElement, {
+            variant: prop("base"),
+            on: prop(false),
+          }) {
+            render() {
+              return new Div({ className: this.variant, classes: { active: this.on } });
+            }
+          }
+          customElements.define("class-base", ClassBase);
+
+          const el = new ClassBase() as any;
+          document.body.appendChild(el);
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = (window as any).el;
+        const div = el.firstChild;
+        const initial = div.className;
+
+        el.on = true;
+        await el.updateComplete;
+        const activated = div.className;
+
+        el.variant = 'alt';
+        await el.updateComplete;
+        const morphed = div.className;
+
+        el.on = false;
+        await el.updateComplete;
+
+        return { initial, activated, morphed, deactivated: div.className, sameDiv: el.firstChild === div };
+      });
+
+      assertEquals(result, {
+        initial: 'base',
+        activated: 'base active',
+        morphed: 'alt active',
+        deactivated: 'alt',
+        sameDiv: true,
+      });
+    });
+
+    await t.step('merges default classes from the config', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          class Chip extends HTMLPropsMixin(HTMLElement, {
+            classes: "chip",
+          }) {}
+          customElements.define("class-chip", Chip);
+
+          class ChipList extends HTMLPropsMixin(HTMLElement, {
+            selected: prop(false),
+          }) {
+            render() {
+              return new Chip({ classes: this.selected ? ["selected"] : [] });
+            }
+          }
+          customElements.define("class-chip-list", ChipList);
+
+          const el = new ChipList() as any;
+          document.body.appendChild(el);
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = (window as any).el;
+        const initial = el.querySelector('class-chip').className;
+        el.selected = true;
+        await el.updateComplete;
+        const selected = el.querySelector('class-chip').className;
+        el.selected = false;
+        await el.updateComplete;
+        return { initial, selected, deselected: el.querySelector('class-chip').className };
+      });
+
+      assertEquals(result.initial, 'chip');
+      assertEquals(result.selected, 'chip selected');
+      assertEquals(result.deselected, 'chip');
+    });
+
+    await teardownBrowser(ctx);
+  },
+});
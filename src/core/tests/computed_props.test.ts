@@ -0,0 +1,160 @@
+/**
+ * Computed Prop Tests (Playwright)
+ *
+ * Tests computed() entries in the props config: lazy, memoized read-only values derived from other props.
+ *
+ * @module
+ */
+
+import { assertEquals } from '@std/assert';
+import { loadTestPage, setupBrowser, teardownBrowser, TEST_OPTIONS, type TestContext } from '../../test-utils/mod.ts';
+
+let ctx: TestContext;
+
+Deno.test({
+  name: 'Computed Prop Tests',
+  ...TEST_OPTIONS,
+
+  async fn(t) {
+    ctx = await setupBrowser();
+
+    await t.step('derives a read-only value from other props on first read', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { computed as computedProp } from "./src/core/mod.ts";
+
+          let computations = 0;
+
+          class PersonCard extends HTMLPropsMixin(HTMLElement, {
+            first: prop("Ada"),
+            last: prop("Lovelace"),
+            fullName: computedProp((host) => {
+              computations++;
+              return host.first + " " + host.last;
+            }),
+          }) {
+            render() {
+              return new Span({ textContent: this.fullName });
+            }
+          }
+          customElements.define("person-card", PersonCard);
+
+          const el = new PersonCard() as any;
+          Object.assign(window, { el, computations: () => computations });
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const { el, computations } = window as any;
+        const beforeRead = computations();
+
+        document.body.appendChild(el);
+        const values = [el.fullName, el.fullName];
+        const afterReads = computations();
+
+        el.first = 'Grace';
+        await el.updateComplete;
+        const afterChange = computations();
+
+        el.fullName = 'Someone Else';
+        return {
+          beforeRead,
+          values,
+          afterReads,
+          afterChange,
+          text: el.querySelector('span').textContent,
+          fullName: el.fullName,
+        };
+      });
+
+      assertEquals(result.beforeRead, 0);
+      assertEquals(result.values, ['Ada Lovelace', 'Ada Lovelace']);
+      assertEquals(result.afterReads, 1);
+      assertEquals(result.afterChange, 2);
+      assertEquals(result.text, 'Grace Lovelace');
+      assertEquals(result.fullName, 'Grace Lovelace');
+    });
+
+    await t.step('stops recomputing while disconnected and resumes on reconnect', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { computed as computedProp } from "./src/core/mod.ts";
+
+          let computations = 0;
+
+          class PersonCard extends HTMLPropsMixin(HTMLElement, {
+            first: prop("Ada"),
+            last: prop("Lovelace"),
+            fullName: computedProp((host) => {
+              computations++;
+              return host.first + " " + host.last;
+            }),
+          }) {
+            render() {
+              return new Span({ textContent: this.fullName });
+            }
+          }
+          customElements.define("person-card", PersonCard);
+
+          const el = new PersonCard() as any;
+          document.body.appendChild(el);
+          Object.assign(window, { el, computations: () => computations });
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const { el, computations } = window as any;
+        el.remove();
+        const beforeChanges = computations();
+        el.first = 'Grace';
+        el.last = 'Hopper';
+        const disconnected = computations() - beforeChanges;
+        const read = el.fullName;
+
+        document.body.appendChild(el);
+        await el.updateComplete;
+        el.first = 'Alan';
+        await el.updateComplete;
+
+        return { disconnected, read, text: el.querySelector('span').textContent, fullName: el.fullName };
+      });
+
+      assertEquals(result.disconnected, 0);
+      assertEquals(result.read, 'Grace Hopper');
+      assertEquals(result.text, 'Alan Hopper');
+      assertEquals(result.fullName, 'Alan Hopper');
+    });
+
+    await t.step('reflects to an attribute without reading it back', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { computed as computedProp } from "./src/core/mod.ts";
+
+          class CartTotal extends HTMLPropsMixin(HTMLElement, {
+            price: prop(10),
+            quantity: prop(2),
+            total: computedProp((host) => host.price * host.quantity, { attribute: true }),
+          }) {}
+          customElements.define("cart-total", CartTotal);
+
+          const el = new CartTotal() as any;
+          document.body.appendChild(el);
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => {
+        const el = (window as any).el;
+        const initial = el.getAttribute('total');
+        el.quantity = 3;
+        const updated = el.getAttribute('total');
+        el.setAttribute('total', '99');
+        return { initial, updated, total: el.total };
+      });
+
+      assertEquals(result, { initial: '20', updated: '30', total: 30 });
+    });
+
+    await teardownBrowser(ctx);
+  },
+});
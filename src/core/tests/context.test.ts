@@ -0,0 +1,264 @@
+/**
+ * Context Tests (Playwright)
+ *
+ * Tests createContext(), provide() and consume() over the context-request protocol.
+ *
+ * @module
+ */
+
+import { assertEquals } from '@std/assert';
+import { loadTestPage, setupBrowser, teardownBrowser, TEST_OPTIONS, type TestContext } from '../../test-utils/mod.ts';
+
+let ctx: TestContext;
+
+Deno.test({
+  name: 'Context Tests',
+  ...TEST_OPTIONS,
+
+  async fn(t) {
+    ctx = await setupBrowser();
+
+    await t.step('consumers render the nearest provided value, across shadow roots', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { createContext } from "./src/core/mod.ts";
+
+          const ThemeContext = createContext<string>(Symbol("theme"));
+
+          class ThemeLabel extends HTMLPropsMixin(HTMLElement) {
+            theme = this.consume(ThemeContext);
+
+            render() {
+              return document.createTextNode(this.theme() ?? "none");
+            }
+          }
+          customElements.define("theme-label", ThemeLabel);
+
+          class ShadowPanel extends HTMLPropsMixin(HTMLElement, { shadow: true }) {
+            render() {
+              return new ThemeLabel();
+            }
+          }
+          customElements.define("shadow-panel", ShadowPanel);
+
+          class NestedProvider extends HTMLPropsMixin(HTMLElement) {
+            constructor(props?: any) {
+              super(props);
+              this.provide(ThemeContext, "contrast");
+            }
+
+            render() {
+              return new ThemeLabel();
+            }
+          }
+          customElements.define("nested-provider", NestedProvider);
+
+          class ThemeProvider extends HTMLPropsMixin(HTMLElement, {
+            theme: prop("light"),
+          }) {
+            render() {
+              this.provide(ThemeContext, this.theme);
+              return [new ThemeLabel(), new ShadowPanel(), new NestedProvider()];
+            }
+          }
+          customElements.define("theme-provider", ThemeProvider);
+
+          const el = new ThemeProvider() as any;
+          document.body.append(el, new ThemeLabel());
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = (window as any).el;
+        const labels = () => [
+          el.querySelector(':scope > theme-label').textContent,
+          el.querySelector('shadow-panel').shadowRoot.querySelector('theme-label').textContent,
+          el.querySelector('nested-provider theme-label').textContent,
+          document.querySelector('body > theme-label')!.textContent,
+        ];
+        const initial = labels();
+
+        el.theme = 'dark';
+        await el.updateComplete;
+        await new Promise((resolve) => setTimeout(resolve));
+
+        return { initial, updated: labels() };
+      });
+
+      assertEquals(result.initial, ['light', 'light', 'contrast', 'none']);
+      assertEquals(result.updated, ['dark', 'dark', 'contrast', 'none']);
+    });
+
+    await t.step('interoperates with other context-request implementations', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { createContext, ContextRequestEvent } from "./src/core/mod.ts";
+
+          const UserContext = createContext<string>("user");
+
+          // A provider written against the protocol directly (e.g. @lit/context)
+          const foreignProvider = document.createElement("div");
+          let setUser = (_: string) => {};
+          foreignProvider.addEventListener("context-request", (event: any) => {
+            if (event.context !== "user") return;
+            event.stopPropagation();
+            setUser = (user) => event.callback(user, () => {});
+            event.callback("ada");
+          });
+
+          class UserName extends HTMLPropsMixin(HTMLElement) {
+            user = this.consume(UserContext);
+
+            render() {
+              return document.createTextNode(this.user() ?? "");
+            }
+          }
+          customElements.define("user-name", UserName);
+
+          class UserProvider extends HTMLPropsMixin(HTMLElement) {
+            constructor(props?: any) {
+              super(props);
+              this.provide(UserContext, "grace");
+            }
+          }
+          customElements.define("user-provider", UserProvider);
+
+          const consumer = new UserName();
+          foreignProvider.appendChild(consumer);
+          document.body.appendChild(foreignProvider);
+
+          // A consumer written against the protocol directly
+          const provider = new UserProvider();
+          const child = document.createElement("span");
+          provider.appendChild(child);
+          document.body.appendChild(provider);
+          const received: unknown[] = [];
+          child.dispatchEvent(new ContextRequestEvent(UserContext, child, (value) => received.push(value), true));
+          provider.provide(UserContext, "linus");
+
+          (window as any).consumer = consumer;
+          (window as any).setUser = (user: string) => setUser(user);
+          (window as any).received = received;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const { consumer, setUser, received } = window as any;
+        const initial = consumer.textContent;
+        setUser('alan');
+        await consumer.updateComplete;
+        return { initial, updated: consumer.textContent, received };
+      });
+
+      assertEquals(result.initial, 'ada');
+      assertEquals(result.updated, 'alan');
+      assertEquals(result.received, ['grace', 'linus']);
+    });
+
+    await t.step('unsubscribes on disconnect and resubscribes to the new provider on reconnect', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { createContext } from "./src/core/mod.ts";
+
+          const LocaleContext = createContext<string>(Symbol("locale"));
+
+          class LocaleProvider extends HTMLPropsMixin(HTMLElement) {
+            constructor(locale: string) {
+              super();
+              this.provide(LocaleContext, locale);
+            }
+          }
+          customElements.define("locale-provider", LocaleProvider);
+          (LocaleProvider as any).context = LocaleContext;
+
+          class LocaleLabel extends HTMLPropsMixin(HTMLElement) {
+            locale = this.consume(LocaleContext);
+            renders = 0;
+
+            render() {
+              this.renders++;
+              return document.createTextNode(this.locale() ?? "");
+            }
+          }
+          customElements.define("locale-label", LocaleLabel);
+
+          const first = new LocaleProvider("en");
+          const second = new LocaleProvider("fr");
+          document.body.append(first, second);
+          const label = new LocaleLabel();
+          first.appendChild(label);
+
+          (window as any).first = first;
+          (window as any).second = second;
+          (window as any).label = label;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const { first, second, label } = window as any;
+        const initial = label.textContent;
+
+        second.appendChild(label);
+        const moved = label.textContent;
+
+        first.provide(first.constructor.context, 'de');
+        await label.updateComplete;
+        const afterOldProvider = label.textContent;
+
+        second.provide(second.constructor.context, 'es');
+        await label.updateComplete;
+
+        return { initial, moved, afterOldProvider, updated: label.textContent, renders: label.renders };
+      });
+
+      assertEquals(result.initial, 'en');
+      assertEquals(result.moved, 'fr');
+      assertEquals(result.afterOldProvider, 'fr');
+      assertEquals(result.updated, 'es');
+      assertEquals(result.renders, 3);
+    });
+
+    await t.step('a removed provider stops notifying consumers until it is connected again', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { createContext, ContextRequestEvent } from "./src/core/mod.ts";
+
+          const CountContext = createContext<number>(Symbol("count"));
+
+          class CountProvider extends HTMLPropsMixin(HTMLElement) {
+            count = this.provide(CountContext, 0);
+          }
+          customElements.define("count-provider", CountProvider);
+
+          const provider = new CountProvider();
+          const child = document.createElement("span");
+          provider.appendChild(child);
+          document.body.appendChild(provider);
+          const received: unknown[] = [];
+          child.dispatchEvent(new ContextRequestEvent(CountContext, child, (value) => received.push(value), true));
+
+          (window as any).provider = provider;
+          (window as any).received = received;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => {
+        const { provider, received } = window as any;
+        provider.count.set(1);
+        provider.remove();
+        provider.count.set(2);
+        const removed = [...received];
+
+        document.body.appendChild(provider);
+        provider.count.set(3);
+        return { removed, reconnected: received };
+      });
+
+      assertEquals(result.removed, [0, 1]);
+      assertEquals(result.reconnected, [0, 1, 2, 3]);
+    });
+
+    await teardownBrowser(ctx);
+  },
+});
@@ -0,0 +1,208 @@
+/**
+ * Attribute Converter Tests (Playwright)
+ *
+ * Tests converting props from and to attributes.
+ *
+ * @module
+ */
+
+import { assertEquals } from '@std/assert';
+import { loadTestPage, setupBrowser, teardownBrowser, TEST_OPTIONS, type TestContext } from '../../test-utils/mod.ts';
+
+let ctx: TestContext;
+
+Deno.test({
+  name: 'Attribute Converter Tests',
+  ...TEST_OPTIONS,
+
+  async fn(t) {
+    ctx = await setupBrowser();
+
+    await t.step('Array and Object props are parsed as JSON from markup', async () => {
+      await loadTestPage(ctx.page, {
+        body: `<json-props items='["a", "b"]' config='{"size": 2}'></json-props>`,
+        code: `
+          class JsonProps extends HTMLPropsMixin(HTMLElement, {
+            items: prop<string[]>([], { attribute: true }),
+            config: prop<{ size: number } | null>(null, { type: Object, attribute: true }),
+          }) {}
+          customElements.define("json-props", JsonProps);
+
+          const el = document.querySelector("json-props") as any;
+          (window as any).result = { items: el.items, config: el.config };
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result.items, ['a', 'b']);
+      assertEquals(result.config, { size: 2 });
+    });
+
+    await t.step('JSON converter reflects values and ignores invalid JSON', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { jsonConverter } from "./src/core/mod.ts";
+
+          class JsonReflect extends HTMLPropsMixin(HTMLElement, {
+            data: prop<unknown>(null, { attribute: "data-json", converter: jsonConverter }),
+          }) {}
+          customElements.define("json-reflect", JsonReflect);
+
+          const el = new JsonReflect({ data: { id: 1, tags: ["x"] } }) as any;
+          document.body.appendChild(el);
+          const reflected = el.getAttribute("data-json");
+
+          el.setAttribute("data-json", "{not json");
+          const afterInvalid = el.data;
+
+          (window as any).result = { reflected, afterInvalid };
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result.reflected, '{"id":1,"tags":["x"]}');
+      assertEquals(result.afterInvalid, { id: 1, tags: ['x'] });
+    });
+
+    await t.step('Date converter converts both directions', async () => {
+      await loadTestPage(ctx.page, {
+        body: `<date-props due="2024-05-01T12:00:00.000Z"></date-props>`,
+        code: `
+          import { dateConverter } from "./src/core/mod.ts";
+
+          class DateProps extends HTMLPropsMixin(HTMLElement, {
+            due: prop<Date | null>(null, { attribute: true, converter: dateConverter }),
+          }) {}
+          customElements.define("date-props", DateProps);
+
+          const el = document.querySelector("date-props") as any;
+          const parsed = el.due instanceof Date ? el.due.getTime() : null;
+
+          el.due = new Date(Date.UTC(2025, 0, 2));
+          const reflected = el.getAttribute("due");
+
+          el.due = null;
+          const removed = el.hasAttribute("due");
+
+          (window as any).result = { parsed, reflected, removed };
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result.parsed, Date.UTC(2024, 4, 1, 12));
+      assertEquals(result.reflected, '2025-01-02T00:00:00.000Z');
+      assertEquals(result.removed, false);
+    });
+
+    await t.step('enum converter rejects values outside the allowed set', async () => {
+      await loadTestPage(ctx.page, {
+        body: `<enum-props variant="secondary"></enum-props>`,
+        code: `
+          import { enumConverter } from "./src/core/mod.ts";
+
+          class EnumProps extends HTMLPropsMixin(HTMLElement, {
+            variant: prop<"primary" | "secondary">("primary", {
+              attribute: true,
+              converter: enumConverter(["primary", "secondary"]),
+            }),
+          }) {}
+          customElements.define("enum-props", EnumProps);
+
+          const el = document.querySelector("enum-props") as any;
+          const initial = el.variant;
+
+          el.setAttribute("variant", "danger");
+          const afterInvalid = el.variant;
+
+          (window as any).result = { initial, afterInvalid };
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result.initial, 'secondary');
+      assertEquals(result.afterInvalid, 'secondary');
+    });
+
+    await t.step('list converter splits and joins comma-separated values', async () => {
+      await loadTestPage(ctx.page, {
+        body: `<list-props tags="news, sports,,weather"></list-props>`,
+        code: `
+          import { listConverter } from "./src/core/mod.ts";
+
+          class ListProps extends HTMLPropsMixin(HTMLElement, {
+            tags: prop<string[]>([], { attribute: true, converter: listConverter() }),
+            path: prop<string[]>([], { attribute: true, converter: listConverter("/") }),
+          }) {}
+          customElements.define("list-props", ListProps);
+
+          const el = document.querySelector("list-props") as any;
+          const tags = el.tags;
+
+          el.path = ["docs", "guide"];
+          const path = el.getAttribute("path");
+
+          el.tags = [];
+          const tagsRemoved = !el.hasAttribute("tags");
+
+          (window as any).result = { tags, path, tagsRemoved };
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result.tags, ['news', 'sports', 'weather']);
+      assertEquals(result.path, 'docs/guide');
+      assertEquals(result.tagsRemoved, true);
+    });
+
+    await t.step('custom converters can implement a single direction', async () => {
+      await loadTestPage(ctx.page, {
+        body: `<custom-converter size="large"></custom-converter>`,
+        code: `
+          class CustomConverter extends HTMLPropsMixin(HTMLElement, {
+            size: prop(1, {
+              attribute: true,
+              converter: {
+                fromAttribute: (value: string | null) => (value === "large" ? 3 : 1),
+              },
+            }),
+          }) {}
+          customElements.define("custom-converter", CustomConverter);
+
+          const el = document.querySelector("custom-converter") as any;
+          const fromMarkup = el.size;
+
+          el.size = 2;
+          const reflected = el.getAttribute("size");
+
+          (window as any).result = { fromMarkup, reflected };
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result.fromMarkup, 3);
+      // toAttribute falls back to the number converter
+      assertEquals(result.reflected, '2');
+    });
+
+    await t.step('observedAttributes only lists props with attributes', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          class ObservedProps extends HTMLPropsMixin(HTMLElement, {
+            label: prop(""),
+            myValue: prop("", { attribute: true }),
+            count: prop(0, { attribute: "data-count" }),
+            tabIndex: 0,
+          }) {}
+          customElements.define("observed-props", ObservedProps);
+
+          (window as any).result = (ObservedProps as any).observedAttributes;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result, ['myvalue', 'data-count']);
+    });
+
+    await teardownBrowser(ctx);
+  },
+});
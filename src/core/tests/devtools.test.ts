@@ -0,0 +1,94 @@
+/**
+ * DevTools Hook Tests (Playwright)
+ *
+ * Tests the notifications sent to globalThis.__HTML_PROPS_DEVTOOLS__.
+ *
+ * @module
+ */
+
+import { assertEquals } from '@std/assert';
+import { loadTestPage, setupBrowser, teardownBrowser, TEST_OPTIONS, type TestContext } from '../../test-utils/mod.ts';
+
+let ctx: TestContext;
+
+Deno.test({
+  name: 'DevTools Hook Tests',
+  ...TEST_OPTIONS,
+
+  async fn(t) {
+    ctx = await setupBrowser();
+
+    await t.step('reports create, render with dependencies, reconcile and dispose', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { repeat, type DevtoolsHook } from "./src/core/mod.ts";
+
+          const events: unknown[] = [];
+          const hook: DevtoolsHook = {
+            create: (component, props) => {
+              if (component.localName === "todo-list") events.push(["create", props]);
+            },
+            render: (component, info) => {
+              if (component.localName !== "todo-list") return;
+              events.push([
+                "render",
+                info.firstRender,
+                info.dependencies.map((dependency) => [dependency.prop, dependency.value]),
+                typeof info.duration,
+              ]);
+            },
+            reconcile: (component, stats) => {
+              // The list items are reconciled by the <ul> rendered by the component
+              if ((stats.parent as Element).localName === "ul") {
+                const { inserted, removed, moved, morphed, unchanged } = stats;
+                events.push(["reconcile", { inserted, removed, moved, morphed, unchanged }]);
+              }
+            },
+            dispose: (component) => {
+              if (component.localName === "todo-list") events.push(["dispose"]);
+            },
+          };
+          (globalThis as any).__HTML_PROPS_DEVTOOLS__ = hook;
+
+          const filter = signal("");
+
+          class TodoList extends HTMLPropsMixin(HTMLElement, {
+            items: prop<string[]>([]),
+            title: prop("Todos"),
+          }) {
+            render() {
+              const visible = this.items.filter((item) => item.includes(filter()));
+              return new Ul({
+                content: repeat(visible, (item) => item, (item) => new Li({ textContent: item })),
+              });
+            }
+          }
+          customElements.define("todo-list", TodoList);
+
+          const el = new TodoList({ items: ["a", "b", "c"] }) as any;
+          document.body.appendChild(el);
+          (window as any).el = el;
+          (window as any).events = events;
+        `,
+      });
+
+      const events = await ctx.page.evaluate(async () => {
+        const { el, events } = window as any;
+        el.items = ['c', 'a', 'd'];
+        await el.updateComplete;
+        el.remove();
+        return events;
+      });
+
+      assertEquals(events, [
+        ['create', { items: ['a', 'b', 'c'], title: 'Todos' }],
+        ['render', true, [['items', ['a', 'b', 'c']], [null, '']], 'number'],
+        ['reconcile', { inserted: 1, removed: 1, moved: 1, morphed: 2, unchanged: 0 }],
+        ['render', false, [['items', ['c', 'a', 'd']], [null, '']], 'number'],
+        ['dispose'],
+      ]);
+    });
+
+    await teardownBrowser(ctx);
+  },
+});
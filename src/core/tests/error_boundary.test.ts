@@ -0,0 +1,242 @@
+/**
+ * Error Boundary Tests (Playwright)
+ *
+ * Tests catching render errors with errorCallback() and renderError().
+ *
+ * @module
+ */
+
+import { assertEquals } from '@std/assert';
+import { loadTestPage, setupBrowser, teardownBrowser, TEST_OPTIONS, type TestContext } from '../../test-utils/mod.ts';
+
+let ctx: TestContext;
+
+Deno.test({
+  name: 'Error Boundary Tests',
+  ...TEST_OPTIONS,
+
+  async fn(t) {
+    ctx = await setupBrowser();
+
+    await t.step('nearest boundary renders fallback for a descendant error and retries on prop change', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          class Faulty extends HTMLPropsMixin(HTMLElement, {
+            fail: prop(false),
+          }) {
+            render() {
+              if (this.fail) throw new Error("Broken widget");
+              return new Span({ textContent: "Widget" });
+            }
+          }
+          customElements.define("faulty-widget", Faulty);
+
+          class Boundary extends HTMLPropsMixin(HTMLElement, {
+            fail: prop(true),
+          }) {
+            errors: string[] = [];
+
+            errorCallback(error: Error) {
+              this.errors.push(error.message);
+            }
+
+            renderError(error: Error) {
+              return new Div({ className: "fallback", textContent: \`Failed: \${error.message}\` });
+            }
+
+            render() {
+              return new Div({ content: new Faulty({ fail: this.fail }) });
+            }
+          }
+          customElements.define("error-boundary", Boundary);
+
+          const el = new Boundary() as any;
+          document.body.appendChild(el);
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = (window as any).el;
+        await el.updateComplete;
+        const fallback = el.innerHTML;
+
+        el.fail = false;
+        await el.updateComplete;
+
+        return { fallback, errors: el.errors, recovered: el.textContent };
+      });
+
+      assertEquals(result.fallback, '<div is="html-div" class="fallback">Failed: Broken widget</div>');
+      assertEquals(result.errors, ['Broken widget']);
+      assertEquals(result.recovered, 'Widget');
+    });
+
+    await t.step('a boundary catches errors in its own render and keeps its subscriptions', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          class SelfBoundary extends HTMLPropsMixin(HTMLElement, {
+            count: prop(0),
+          }) {
+            renderError() {
+              return document.createTextNode("Error");
+            }
+
+            render() {
+              if (this.count === 1) throw new Error("One is not allowed");
+              return document.createTextNode(\`Count: \${this.count}\`);
+            }
+          }
+          customElements.define("self-boundary", SelfBoundary);
+
+          const el = new SelfBoundary() as any;
+          document.body.appendChild(el);
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = (window as any).el;
+        const texts = [el.textContent];
+        for (const count of [1, 2, 3]) {
+          el.count = count;
+          await el.updateComplete;
+          texts.push(el.textContent);
+        }
+        return texts;
+      });
+
+      assertEquals(result, ['Count: 0', 'Error', 'Count: 2', 'Count: 3']);
+    });
+
+    await t.step('boundaries catch errors from inside shadow roots', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          class ShadowFaulty extends HTMLPropsMixin(HTMLElement, { shadow: true }) {
+            render() {
+              throw new Error("Shadow failure");
+            }
+          }
+          customElements.define("shadow-faulty", ShadowFaulty);
+
+          class OuterBoundary extends HTMLPropsMixin(HTMLElement) {
+            renderError(error: Error) {
+              return new Span({ textContent: error.message });
+            }
+
+            render() {
+              return new Div({ content: new ShadowFaulty() });
+            }
+          }
+          customElements.define("outer-boundary", OuterBoundary);
+
+          const el = new OuterBoundary() as any;
+          document.body.appendChild(el);
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = (window as any).el;
+        await el.updateComplete;
+        return el.textContent;
+      });
+
+      assertEquals(result, 'Shadow failure');
+    });
+
+    await t.step('errors without a boundary are reported and do not stop other updates', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          const reported: string[] = [];
+          window.addEventListener("error", (event) => {
+            reported.push(event.message);
+            event.preventDefault();
+          });
+
+          class Unguarded extends HTMLPropsMixin(HTMLElement, {
+            fail: prop(false),
+          }) {
+            render() {
+              if (this.fail) throw new Error("Unguarded failure");
+              return document.createTextNode("ok");
+            }
+          }
+          customElements.define("unguarded-el", Unguarded);
+
+          class Healthy extends HTMLPropsMixin(HTMLElement, {
+            count: prop(0),
+          }) {
+            render() {
+              return document.createTextNode(\`Count: \${this.count}\`);
+            }
+          }
+          customElements.define("healthy-el", Healthy);
+
+          const broken = new Unguarded() as any;
+          const healthy = new Healthy() as any;
+          document.body.append(broken, healthy);
+          (window as any).broken = broken;
+          (window as any).healthy = healthy;
+          (window as any).reported = reported;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const { broken, healthy, reported } = window as any;
+        broken.fail = true;
+        healthy.count = 1;
+        await healthy.updateComplete;
+        const afterError = healthy.textContent;
+
+        broken.fail = false;
+        await broken.updateComplete;
+
+        return { reported, afterError, brokenText: broken.textContent };
+      });
+
+      assertEquals(result.reported, ['Uncaught Error: Unguarded failure']);
+      assertEquals(result.afterError, 'Count: 1');
+      assertEquals(result.brokenText, 'ok');
+    });
+
+    await t.step('errors without a boundary propagate to the caller of the update', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { flushSync } from "./src/core/mod.ts";
+
+          class Unguarded extends HTMLPropsMixin(HTMLElement, {
+            fail: prop(false),
+          }) {
+            render() {
+              if (this.fail) throw new Error("Unguarded failure");
+              return document.createTextNode("ok");
+            }
+          }
+          customElements.define("unguarded-el", Unguarded);
+
+          const el = new Unguarded() as any;
+          document.body.appendChild(el);
+          Object.assign(window, { el, flushSync });
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => {
+        const { el, flushSync } = window as any;
+        let thrown = null;
+        try {
+          flushSync(() => el.fail = true);
+        } catch (error) {
+          thrown = (error as Error).message;
+        }
+
+        flushSync(() => el.fail = false);
+        return { thrown, text: el.textContent };
+      });
+
+      assertEquals(result, { thrown: 'Unguarded failure', text: 'ok' });
+    });
+
+    await teardownBrowser(ctx);
+  },
+});
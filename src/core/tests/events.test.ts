@@ -0,0 +1,159 @@
+/**
+ * Event Listener Tests (Playwright)
+ *
+ * Tests the `on` listener map prop.
+ *
+ * @module
+ */
+
+import { assertEquals } from '@std/assert';
+import { loadTestPage, setupBrowser, teardownBrowser, TEST_OPTIONS, type TestContext } from '../../test-utils/mod.ts';
+
+let ctx: TestContext;
+
+Deno.test({
+  name: 'Event Listener Tests',
+  ...TEST_OPTIONS,
+
+  async fn(t) {
+    ctx = await setupBrowser();
+
+    await t.step('listens to custom event names', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          const received: unknown[] = [];
+          const el = new Div({
+            on: {
+              "value-changed": (event: CustomEvent) => received.push(event.detail),
+              MyEvent: () => received.push("MyEvent"),
+            },
+          });
+          document.body.appendChild(el);
+
+          el.dispatchEvent(new CustomEvent("value-changed", { detail: 42 }));
+          el.dispatchEvent(new Event("MyEvent"));
+
+          (window as any).result = { received, hasOnProperty: "on" in el && (el as any).on !== undefined };
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result.received, [42, 'MyEvent']);
+      assertEquals(result.hasOnProperty, false);
+    });
+
+    await t.step('passes listener options to addEventListener', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          const calls: string[] = [];
+          const child = new Span({ on: { click: () => calls.push("child") } });
+          const parent = new Div({
+            on: {
+              click: [() => calls.push("capture"), { capture: true }],
+              ping: [() => calls.push("once"), { once: true }],
+            },
+            content: child,
+          });
+          document.body.appendChild(parent);
+
+          child.click();
+          parent.dispatchEvent(new Event("ping"));
+          parent.dispatchEvent(new Event("ping"));
+
+          (window as any).result = calls;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result, ['capture', 'child', 'once']);
+    });
+
+    await t.step('swaps listeners on re-render instead of stacking them', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          class ListenerHost extends HTMLPropsMixin(HTMLElement, {
+            mode: prop("a"),
+          }) {
+            calls: string[] = [];
+
+            render() {
+              const mode = this.mode;
+              const on: Record<string, unknown> = {
+                select: () => this.calls.push(\`select-\${mode}\`),
+              };
+              if (mode === "a") on.extra = () => this.calls.push("extra");
+              if (mode === "c") on.select = [() => this.calls.push("select-c-capture"), { capture: true }];
+              return new Button({ on });
+            }
+          }
+          customElements.define("listener-host", ListenerHost);
+
+          const el = new ListenerHost() as any;
+          document.body.appendChild(el);
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = (window as any).el;
+        const button = el.querySelector('button');
+        const fire = () => {
+          button.dispatchEvent(new Event('select'));
+          button.dispatchEvent(new Event('extra'));
+        };
+
+        fire();
+        el.mode = 'b';
+        await el.updateComplete;
+        fire();
+        el.mode = 'c';
+        await el.updateComplete;
+        fire();
+
+        return { calls: el.calls, sameButton: el.querySelector('button') === button };
+      });
+
+      assertEquals(result.calls, ['select-a', 'extra', 'select-b', 'select-c-capture']);
+      assertEquals(result.sameButton, true);
+    });
+
+    await t.step('adds once listeners again on re-render after they fired', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          class OnceHost extends HTMLPropsMixin(HTMLElement, {
+            label: prop("a"),
+          }) {
+            clicks = 0;
+
+            render() {
+              return new Button({ textContent: this.label, on: { click: [() => this.clicks++, { once: true }] } });
+            }
+          }
+          customElements.define("once-host", OnceHost);
+
+          const el = new OnceHost() as any;
+          document.body.appendChild(el);
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = (window as any).el;
+        const button = el.querySelector('button');
+
+        button.click();
+        button.click();
+        el.label = 'b';
+        await el.updateComplete;
+        button.click();
+
+        return { clicks: el.clicks, sameButton: el.querySelector('button') === button };
+      });
+
+      assertEquals(result.clicks, 2);
+      assertEquals(result.sameButton, true);
+    });
+
+    await teardownBrowser(ctx);
+  },
+});
@@ -0,0 +1,163 @@
+/**
+ * Form Control State Tests (Playwright)
+ *
+ * Tests that reconciliation syncs value, checked and selected like controlled inputs,
+ * without rewriting values that did not change.
+ *
+ * @module
+ */
+
+import { assertEquals } from '@std/assert';
+import { loadTestPage, setupBrowser, teardownBrowser, TEST_OPTIONS, type TestContext } from '../../test-utils/mod.ts';
+
+let ctx: TestContext;
+
+Deno.test({
+  name: 'Form Control State Tests',
+  ...TEST_OPTIONS,
+
+  async fn(t) {
+    ctx = await setupBrowser();
+
+    await t.step('restores value, checked and selected set by render() and keeps uncontrolled input', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          class PlainForm extends HTMLPropsMixin(HTMLElement, {
+            text: prop("hello"),
+            agreed: prop(false),
+            size: prop("m"),
+            version: prop(0),
+          }) {
+            render() {
+              const input = document.createElement("input");
+              input.value = this.text;
+
+              const checkbox = document.createElement("input");
+              checkbox.type = "checkbox";
+              checkbox.checked = this.agreed;
+
+              const textarea = document.createElement("textarea");
+              textarea.value = \`\${this.text} world\`;
+
+              const select = document.createElement("select");
+              select.innerHTML = '<option value="s">S</option><option value="m">M</option><option value="l">L</option>';
+              select.value = this.size;
+
+              // Uncontrolled: render() never sets its value
+              const notes = document.createElement("input");
+              notes.name = "notes";
+
+              const version = document.createElement("span");
+              version.textContent = String(this.version);
+
+              return [input, checkbox, textarea, select, notes, version];
+            }
+          }
+          customElements.define("plain-form", PlainForm);
+
+          const el = new PlainForm() as any;
+          document.body.appendChild(el);
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = (window as any).el;
+        const [input, checkbox, notes] = el.querySelectorAll('input');
+        const textarea = el.querySelector('textarea');
+        const select = el.querySelector('select');
+        const state = () => [input.value, checkbox.checked, textarea.value, select.value, notes.value];
+
+        // User edits that render() does not know about
+        input.value = 'typed';
+        checkbox.checked = true;
+        textarea.value = 'typed';
+        select.value = 'l';
+        notes.value = 'typed';
+        el.version = 1;
+        await el.updateComplete;
+        const controlled = state();
+
+        el.text = 'bye';
+        el.agreed = true;
+        el.size = 's';
+        await el.updateComplete;
+
+        return {
+          controlled,
+          updated: state(),
+          sameNodes: el.querySelector('input') === input && el.querySelector('select') === select,
+        };
+      });
+
+      assertEquals(result.controlled, ['hello', false, 'hello world', 'm', 'typed']);
+      assertEquals(result.updated, ['bye', true, 'bye world', 's', 'typed']);
+      assertEquals(result.sameNodes, true);
+    });
+
+    await t.step('does not rewrite unchanged values, keeping the caret in place', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          class ControlledInputs extends HTMLPropsMixin(HTMLElement, {
+            text: prop("hello"),
+            amount: prop(5),
+            label: prop("Name"),
+          }) {
+            render() {
+              const plain = document.createElement("input");
+              plain.value = this.text;
+              return [
+                new Span({ textContent: this.label }),
+                new Input({ value: this.text, oninput: (e: Event) => (this.text = (e.target as HTMLInputElement).value) }),
+                new Input({ type: "number", value: this.amount as any }),
+                plain,
+              ];
+            }
+          }
+          customElements.define("controlled-inputs", ControlledInputs);
+
+          const el = new ControlledInputs() as any;
+          document.body.appendChild(el);
+
+          // Count writes to the value property
+          const writes: string[] = [];
+          const descriptor = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, "value")!;
+          el.querySelectorAll("input").forEach((input: HTMLInputElement, i: number) => {
+            Object.defineProperty(input, "value", {
+              get: () => descriptor.get!.call(input),
+              set: (value) => {
+                writes.push(\`\${i}:\${value}\`);
+                descriptor.set!.call(input, value);
+              },
+            });
+          });
+
+          (window as any).el = el;
+          (window as any).writes = writes;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const { el, writes } = window as any;
+        const input = el.querySelector('input');
+        input.focus();
+        input.setSelectionRange(2, 2);
+
+        el.label = 'Full name';
+        await el.updateComplete;
+        const afterUnrelated = { writes: [...writes], caret: input.selectionStart };
+
+        el.text = 'help';
+        await el.updateComplete;
+
+        return { afterUnrelated, writes, value: input.value };
+      });
+
+      assertEquals(result.afterUnrelated, { writes: [], caret: 2 });
+      assertEquals(result.writes, ['0:help', '2:help']);
+      assertEquals(result.value, 'help');
+    });
+
+    await teardownBrowser(ctx);
+  },
+});
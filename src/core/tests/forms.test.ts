@@ -0,0 +1,185 @@
+/**
+ * Form-Associated Component Tests (Playwright)
+ *
+ * Tests the formAssociated option: form values, reset, disabled state, restore and validity.
+ *
+ * @module
+ */
+
+import { assertEquals } from '@std/assert';
+import { loadTestPage, setupBrowser, teardownBrowser, TEST_OPTIONS, type TestContext } from '../../test-utils/mod.ts';
+
+let ctx: TestContext;
+
+Deno.test({
+  name: 'Form-Associated Component Tests',
+  ...TEST_OPTIONS,
+
+  async fn(t) {
+    ctx = await setupBrowser();
+
+    await t.step('submits the mapped prop with the form and restores it on reset', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          class TextField extends HTMLPropsMixin(HTMLElement, {
+            formAssociated: true,
+            value: prop("", { attribute: true }),
+          }) {}
+          customElements.define("text-field", TextField);
+
+          class ToggleField extends HTMLPropsMixin(HTMLElement, {
+            formAssociated: {
+              value: "checked",
+              toFormValue: (checked: boolean) => (checked ? "on" : null),
+            },
+            checked: prop(false),
+          }) {}
+          customElements.define("toggle-field", ToggleField);
+
+          class StepperField extends HTMLPropsMixin(HTMLElement, {
+            formAssociated: true,
+            value: prop(1),
+          }) {}
+          customElements.define("stepper-field", StepperField);
+
+          const form = document.createElement("form");
+          form.innerHTML = \`
+            <text-field name="title" value="Draft"></text-field>
+            <toggle-field name="published"></toggle-field>
+            <stepper-field name="quantity"></stepper-field>
+          \`;
+          document.body.appendChild(form);
+          (window as any).form = form;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => {
+        const form = (window as any).form as HTMLFormElement;
+        const entries = () => [...new FormData(form)].map(([key, value]) => `${key}=${value}`);
+        const text = form.querySelector('text-field') as any;
+        const toggle = form.querySelector('toggle-field') as any;
+        const stepper = form.querySelector('stepper-field') as any;
+        const initial = entries();
+
+        text.value = 'Final';
+        toggle.checked = true;
+        stepper.value = 3;
+        const changed = entries();
+
+        form.reset();
+
+        return {
+          initial,
+          changed,
+          reset: entries(),
+          resetProps: [text.value, toggle.checked, stepper.value],
+          elements: form.elements.length,
+          internals: text.internals instanceof ElementInternals,
+        };
+      });
+
+      assertEquals(result.initial, ['title=Draft', 'quantity=1']);
+      assertEquals(result.changed, ['title=Final', 'published=on', 'quantity=3']);
+      assertEquals(result.reset, ['title=Draft', 'quantity=1']);
+      assertEquals(result.resetProps, ['Draft', false, 1]);
+      assertEquals(result.elements, 3);
+      assertEquals(result.internals, true);
+    });
+
+    await t.step('wires fieldset disabling and form state restore into props', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import type { FormValue } from "./src/core/mod.ts";
+
+          class DateField extends HTMLPropsMixin(HTMLElement, {
+            formAssociated: {
+              toFormValue: (date: Date | null) => date?.toISOString().slice(0, 10) ?? null,
+              fromFormValue: (value: FormValue) => (typeof value === "string" ? new Date(value) : null),
+            },
+            value: prop<Date | null>(null, { type: Object }),
+            disabled: prop(false),
+          }) {}
+          customElements.define("date-field", DateField);
+
+          const form = document.createElement("form");
+          const fieldset = document.createElement("fieldset");
+          const field = new DateField() as any;
+          field.setAttribute("name", "due");
+          fieldset.appendChild(field);
+          form.appendChild(fieldset);
+          document.body.appendChild(form);
+          (window as any).form = form;
+          (window as any).fieldset = fieldset;
+          (window as any).field = field;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const { form, fieldset, field } = window as any;
+        const entries = () => [...new FormData(form)].map(([key, value]) => `${key}=${value}`);
+
+        field.formStateRestoreCallback('2024-05-01', 'restore');
+        const restored = { date: field.value.toISOString(), entries: entries() };
+
+        fieldset.disabled = true;
+        await Promise.resolve();
+        const disabled = { prop: field.disabled, entries: entries() };
+
+        fieldset.disabled = false;
+        await Promise.resolve();
+
+        return { restored, disabled, enabled: field.disabled };
+      });
+
+      assertEquals(result.restored, { date: '2024-05-01T00:00:00.000Z', entries: ['due=2024-05-01'] });
+      assertEquals(result.disabled, { prop: true, entries: [] });
+      assertEquals(result.enabled, false);
+    });
+
+    await t.step('setValidity() controls form validation', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          class RequiredField extends HTMLPropsMixin(HTMLElement, {
+            formAssociated: true,
+            value: prop(""),
+          }) {
+            updated() {
+              if (this.value) {
+                this.setValidity();
+              } else {
+                this.setValidity({ valueMissing: true }, "Please fill in this field.");
+              }
+            }
+          }
+          customElements.define("required-field", RequiredField);
+
+          const form = document.createElement("form");
+          const field = new RequiredField();
+          form.appendChild(field);
+          document.body.appendChild(form);
+          (window as any).form = form;
+          (window as any).field = field;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const { form, field } = window as any;
+        const invalid = {
+          valid: form.checkValidity(),
+          valueMissing: field.internals.validity.valueMissing,
+          message: field.internals.validationMessage,
+        };
+
+        field.value = 'Filled';
+        await field.updateComplete;
+
+        return { invalid, valid: form.checkValidity() };
+      });
+
+      assertEquals(result.invalid, { valid: false, valueMissing: true, message: 'Please fill in this field.' });
+      assertEquals(result.valid, true);
+    });
+
+    await teardownBrowser(ctx);
+  },
+});
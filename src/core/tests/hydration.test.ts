@@ -0,0 +1,283 @@
+/**
+ * Hydration Tests (Playwright)
+ *
+ * Tests adopting server-rendered DOM on the first client render.
+ *
+ * @module
+ */
+
+import { assertEquals } from '@std/assert';
+import { loadTestPage, setupBrowser, teardownBrowser, TEST_OPTIONS, type TestContext } from '../../test-utils/mod.ts';
+
+let ctx: TestContext;
+
+Deno.test({
+  name: 'Hydration Tests',
+  ...TEST_OPTIONS,
+
+  async fn(t) {
+    ctx = await setupBrowser();
+
+    await t.step('adopts existing Light DOM nodes and attaches event handlers', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { renderToString } from "./src/core/mod.ts";
+
+          class HydrateCounter extends HTMLPropsMixin(HTMLElement, {
+            count: prop(0),
+          }) {
+            render() {
+              return new Button({
+                textContent: \`Count: \${this.count}\`,
+                onclick: () => this.count++,
+              });
+            }
+          }
+          customElements.define("hydrate-counter", HydrateCounter);
+
+          const container = document.createElement("div");
+          container.setHTMLUnsafe(renderToString(new HydrateCounter()));
+          const serverButton = container.querySelector("button");
+          document.body.appendChild(container);
+
+          const el = container.querySelector("hydrate-counter") as any;
+          (window as any).el = el;
+          (window as any).serverButton = serverButton;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = (window as any).el;
+        const button = el.querySelector('button');
+        const sameNode = button === (window as any).serverButton;
+        button.click();
+        await el.updateComplete;
+        return {
+          sameNode,
+          childCount: el.childNodes.length,
+          text: el.querySelector('button').textContent,
+          marker: el.hasAttribute('data-hydrate'),
+        };
+      });
+
+      assertEquals(result.sameNode, true);
+      assertEquals(result.childCount, 1);
+      assertEquals(result.text, 'Count: 1');
+      assertEquals(result.marker, false);
+    });
+
+    await t.step('hydrates elements that are defined before their markup is parsed', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { renderToString } from "./src/core/mod.ts";
+
+          class EarlyCounter extends HTMLPropsMixin(HTMLElement, {
+            count: prop(0),
+          }) {
+            render() {
+              return new Button({
+                textContent: \`Count: \${this.count}\`,
+                onclick: () => this.count++,
+              });
+            }
+          }
+          customElements.define("early-counter", EarlyCounter);
+
+          // The parser constructs defined elements before it sets their attributes
+          const markup = renderToString(new EarlyCounter()).replace("<button", "<button id=server-button");
+          document.open();
+          document.write("<body>" + markup + "</body>");
+          document.close();
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = document.querySelector('early-counter') as any;
+        const button = el.querySelector('button');
+        button.click();
+        await el.updateComplete;
+        return {
+          childCount: el.childNodes.length,
+          serverNode: button.id === 'server-button',
+          text: button.textContent,
+          marker: el.hasAttribute('data-hydrate'),
+        };
+      });
+
+      assertEquals(result, { childCount: 1, serverNode: true, text: 'Count: 1', marker: false });
+    });
+
+    await t.step('calls mountedCallback after parser-inserted elements hydrate', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { renderToString } from "./src/core/mod.ts";
+
+          const mounts: unknown[] = [];
+
+          class EarlyGreeting extends HTMLPropsMixin(HTMLElement) {
+            render() {
+              return new Span({ textContent: "Hello" });
+            }
+
+            mountedCallback() {
+              const span = this.querySelector("span");
+              mounts.push({
+                marker: this.hasAttribute("data-hydrate"),
+                serverNode: span?.id === "server-span",
+                spans: this.querySelectorAll("span").length,
+              });
+            }
+          }
+          customElements.define("early-greeting", EarlyGreeting);
+
+          const markup = renderToString(new EarlyGreeting()).replace("<span", "<span id=server-span");
+          (window as any).mounts = mounts;
+          document.open();
+          document.write("<body>" + markup);
+          // The document keeps loading until it is closed
+          setTimeout(() => {
+            document.write("</body>");
+            document.close();
+          });
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        return (window as any).mounts;
+      });
+
+      assertEquals(result, [{ marker: false, serverNode: true, spans: 1 }]);
+    });
+
+    await t.step('adopts declarative shadow DOM and sets refs on existing nodes', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { renderToString } from "./src/core/mod.ts";
+
+          class HydrateField extends HTMLPropsMixin(HTMLElement, {
+            shadow: true,
+            label: prop("Name"),
+          }) {
+            inputRef = ref<HTMLInputElement>();
+
+            render() {
+              return [
+                new Span({ textContent: this.label }),
+                new Input({ ref: this.inputRef, placeholder: this.label }),
+              ];
+            }
+          }
+          customElements.define("hydrate-field", HydrateField);
+
+          const container = document.createElement("div");
+          container.setHTMLUnsafe(renderToString(new HydrateField()));
+          const el = container.querySelector("hydrate-field") as any;
+          const serverInput = el.shadowRoot.querySelector("input");
+          document.body.appendChild(container);
+
+          (window as any).result = {
+            sameInput: el.shadowRoot.querySelector("input") === serverInput,
+            refIsServerInput: el.inputRef.current === serverInput,
+            shadowChildren: el.shadowRoot.childNodes.length,
+          };
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result.sameInput, true);
+      assertEquals(result.refIsServerInput, true);
+      assertEquals(result.shadowChildren, 2);
+    });
+
+    await t.step('preserves focus on server-rendered inputs', async () => {
+      await loadTestPage(ctx.page, {
+        body: `<hydrate-search data-hydrate><input is="html-input" placeholder="Search"></hydrate-search>`,
+        code: `
+          document.querySelector("input")!.focus();
+
+          class HydrateSearch extends HTMLPropsMixin(HTMLElement) {
+            render() {
+              return new Input({ placeholder: "Search" });
+            }
+          }
+          customElements.define("hydrate-search", HydrateSearch);
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => {
+        const el = document.querySelector('hydrate-search')!;
+        return {
+          focused: document.activeElement === el.querySelector('input'),
+          inputs: el.querySelectorAll('input').length,
+        };
+      });
+
+      assertEquals(result.focused, true);
+      assertEquals(result.inputs, 1);
+    });
+
+    await t.step('warns about mismatches in dev mode', async () => {
+      await loadTestPage(ctx.page, {
+        body: `<hydrate-mismatch data-hydrate><span is="html-span">Server</span><b>extra</b></hydrate-mismatch>`,
+        code: `
+          import { setDevMode } from "./src/core/mod.ts";
+
+          const warnings: string[] = [];
+          console.warn = (message: string) => warnings.push(message);
+          setDevMode(true);
+
+          class HydrateMismatch extends HTMLPropsMixin(HTMLElement) {
+            render() {
+              return new Span({ textContent: "Client" });
+            }
+          }
+          customElements.define("hydrate-mismatch", HydrateMismatch);
+
+          (window as any).result = {
+            warnings,
+            html: document.querySelector("hydrate-mismatch")!.innerHTML,
+          };
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result.warnings.length, 1);
+      assertEquals(result.warnings[0].includes('<hydrate-mismatch>'), true);
+      assertEquals(result.warnings[0].includes('removed <b>'), true);
+      assertEquals(result.html, '<span is="html-span">Client</span>');
+    });
+
+    await t.step('does not warn when server markup matches', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { renderToString, setDevMode } from "./src/core/mod.ts";
+
+          const warnings: string[] = [];
+          console.warn = (message: string) => warnings.push(message);
+          setDevMode(true);
+
+          class HydrateList extends HTMLPropsMixin(HTMLElement, {
+            items: prop<string[]>(["a", "b"]),
+          }) {
+            render() {
+              return new Ul({ content: this.items.map((item) => new Li({ textContent: item })) });
+            }
+          }
+          customElements.define("hydrate-list", HydrateList);
+
+          const container = document.createElement("div");
+          container.setHTMLUnsafe(renderToString(new HydrateList()));
+          document.body.appendChild(container);
+
+          (window as any).result = { warnings };
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result.warnings.length, 0);
+    });
+
+    await teardownBrowser(ctx);
+  },
+});
@@ -0,0 +1,129 @@
+/**
+ * Update Lifecycle Tests (Playwright)
+ *
+ * Tests willUpdate(), updated() and firstUpdated() with the map of changed props.
+ *
+ * @module
+ */
+
+import { assertEquals } from '@std/assert';
+import { loadTestPage, setupBrowser, teardownBrowser, TEST_OPTIONS, type TestContext } from '../../test-utils/mod.ts';
+
+let ctx: TestContext;
+
+Deno.test({
+  name: 'Update Lifecycle Tests',
+  ...TEST_OPTIONS,
+
+  async fn(t) {
+    ctx = await setupBrowser();
+
+    await t.step('hooks receive changed props with previous values', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          class LifecycleEl extends HTMLPropsMixin(HTMLElement, {
+            first: prop("Ada"),
+            last: prop("Lovelace"),
+            count: prop(0),
+          }) {
+            log: string[] = [];
+
+            willUpdate(changed: Map<string, unknown>) {
+              this.log.push(\`willUpdate \${[...changed].map(([key, old]) => \`\${key}:\${old}\`).join(",")}\`);
+            }
+
+            firstUpdated() {
+              this.log.push(\`firstUpdated \${this.textContent}\`);
+            }
+
+            updated(changed: Map<string, unknown>) {
+              this.log.push(\`updated \${[...changed.keys()].join(",")} \${this.textContent}\`);
+            }
+
+            render() {
+              return document.createTextNode(\`\${this.first} \${this.last}\`);
+            }
+          }
+          customElements.define("lifecycle-el", LifecycleEl);
+
+          const el = new LifecycleEl({ count: 1 }) as any;
+          document.body.appendChild(el);
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = (window as any).el;
+        el.first = 'Grace';
+        el.last = 'Hopper';
+        await el.updateComplete;
+        el.count = 2;
+        await el.updateComplete;
+        return el.log;
+      });
+
+      assertEquals(result, [
+        'willUpdate first:undefined,last:undefined,count:undefined',
+        'firstUpdated Ada Lovelace',
+        'updated first,last,count Ada Lovelace',
+        'willUpdate first:Ada,last:Lovelace',
+        'updated first,last Grace Hopper',
+        'willUpdate count:1',
+        'updated count Grace Hopper',
+      ]);
+    });
+
+    await t.step('willUpdate derives state without an extra render, updated schedules one', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          class DerivedEl extends HTMLPropsMixin(HTMLElement, {
+            items: prop<number[]>([]),
+            total: prop(0),
+            width: prop(0),
+          }) {
+            renders = 0;
+
+            willUpdate(changed: Map<string, unknown>) {
+              if (changed.has("items")) {
+                this.total = this.items.reduce((sum, item) => sum + item, 0);
+              }
+            }
+
+            updated() {
+              // Post-render measurement
+              this.width = this.textContent!.length;
+            }
+
+            render() {
+              this.renders++;
+              return document.createTextNode(\`Total: \${this.total} (\${this.width})\`);
+            }
+          }
+          customElements.define("derived-el", DerivedEl);
+
+          const el = new DerivedEl() as any;
+          document.body.appendChild(el);
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = (window as any).el;
+        await el.updateComplete;
+        const initial = { text: el.textContent, renders: el.renders };
+
+        el.items = [10, 20, 30];
+        await el.updateComplete;
+        await el.updateComplete;
+
+        return { initial, updated: { text: el.textContent, renders: el.renders } };
+      });
+
+      // "Total: 0 (0)" measures 12 characters, "Total: 0 (12)" measures 13 and so on until stable
+      assertEquals(result.initial, { text: 'Total: 0 (13)', renders: 3 });
+      assertEquals(result.updated, { text: 'Total: 60 (14)', renders: 5 });
+    });
+
+    await teardownBrowser(ctx);
+  },
+});
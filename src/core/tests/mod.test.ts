@@ -87,9 +87,10 @@ Deno.test({
       assertEquals(initial.renderCount, 1);
       assertEquals(initial.textContent, 'Count: 0');
 
-      const afterUpdate = await ctx.page.evaluate(() => {
+      const afterUpdate = await ctx.page.evaluate(async () => {
         const el = (window as any).testElement;
         el.count = 5;
+        await el.updateComplete;
         return {
           renderCount: (window as any).getRenderCount(),
           textContent: el.textContent,
@@ -1079,8 +1080,9 @@ Deno.test({
       assertEquals(initial.renderCount, 1);
       assertEquals(initial.textContent, 'Count: 0');
 
-      const afterUpdate = await ctx.page.evaluate(() => {
+      const afterUpdate = await ctx.page.evaluate(async () => {
         (window as any).el.count = 1;
+        await (window as any).el.updateComplete;
         return {
           updateCount: (window as any).getUpdateCount(),
           renderCount: (window as any).getRenderCount(),
@@ -1160,20 +1162,23 @@ Deno.test({
       });
       assertEquals(initial, 'Count: 0');
 
-      const afterLow = await ctx.page.evaluate(() => {
+      const afterLow = await ctx.page.evaluate(async () => {
         (window as any).el.count = 4;
+        await (window as any).el.updateComplete;
         return (window as any).el.textContent;
       });
       assertEquals(afterLow, 'Count: 4');
 
-      const afterHigh = await ctx.page.evaluate(() => {
+      const afterHigh = await ctx.page.evaluate(async () => {
         (window as any).el.count = 6;
+        await (window as any).el.updateComplete;
         return (window as any).el.textContent;
       });
       assertEquals(afterHigh, 'Too high!');
 
-      const afterLowAgain = await ctx.page.evaluate(() => {
+      const afterLowAgain = await ctx.page.evaluate(async () => {
         (window as any).el.count = 2;
+        await (window as any).el.updateComplete;
         return (window as any).el.textContent;
       });
       assertEquals(afterLowAgain, 'Count: 2');
@@ -1204,8 +1209,9 @@ Deno.test({
       });
       assertEquals(initial, 1);
 
-      const afterRequestUpdate = await ctx.page.evaluate(() => {
+      const afterRequestUpdate = await ctx.page.evaluate(async () => {
         (window as any).el.requestUpdate();
+        await (window as any).el.updateComplete;
         return (window as any).getRenderCount();
       });
       assertEquals(afterRequestUpdate, 2);
@@ -1324,9 +1330,10 @@ Deno.test({
       assertEquals(initial.wrapperTagName, 'wrapper-div-test');
       assertEquals(initial.wrapperChildNodesLength, 0);
 
-      const afterLoad = await ctx.page.evaluate(() => {
+      const afterLoad = await ctx.page.evaluate(async () => {
         const el = (window as any).el;
         el.loadContent(['Item 1', 'Item 2', 'Item 3']);
+        await el.updateComplete;
         const wrapper = el.firstChild;
         return {
           wrapperChildNodesLength: wrapper?.childNodes.length,
@@ -1385,10 +1392,11 @@ Deno.test({
       assertEquals(initial.renderCount, 1);
       assertEquals(initial.buttonText, 'Count: 0');
 
-      const afterClick = await ctx.page.evaluate(() => {
+      const afterClick = await ctx.page.evaluate(async () => {
         const el = (window as any).el;
         const button = el.querySelector('button');
         button?.click();
+        await el.updateComplete;
         const newButton = el.querySelector('button');
         return {
           renderCount: (window as any).getRenderCount(),
@@ -1399,10 +1407,11 @@ Deno.test({
       assertEquals(afterClick.renderCount, 2);
       assertEquals(afterClick.buttonText, 'Count: 1');
 
-      const afterSecondClick = await ctx.page.evaluate(() => {
+      const afterSecondClick = await ctx.page.evaluate(async () => {
         const el = (window as any).el;
         const button = el.querySelector('button');
         button?.click();
+        await el.updateComplete;
         const newButton = el.querySelector('button');
         return {
           renderCount: (window as any).getRenderCount(),
@@ -1465,11 +1474,12 @@ Deno.test({
       assertEquals(initial.childRenderCount, 1);
       assertEquals(initial.buttonText, 'Nested: 0');
 
-      const afterClick = await ctx.page.evaluate(() => {
+      const afterClick = await ctx.page.evaluate(async () => {
         const parent = (window as any).parent;
         const child = parent.querySelector('nested-counter-test');
         const button = child?.querySelector('button');
         button?.click();
+        await child.updateComplete;
         const newButton = child?.querySelector('button');
         return {
           childRenderCount: (window as any).getChildRenderCount(),
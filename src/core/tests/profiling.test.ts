@@ -0,0 +1,84 @@
+/**
+ * Profiling Tests (Playwright)
+ *
+ * Tests User Timing measures and aggregated render and reconcile counters.
+ *
+ * @module
+ */
+
+import { assertEquals } from '@std/assert';
+import { loadTestPage, setupBrowser, teardownBrowser, TEST_OPTIONS, type TestContext } from '../../test-utils/mod.ts';
+
+let ctx: TestContext;
+
+Deno.test({
+  name: 'Profiling Tests',
+  ...TEST_OPTIONS,
+
+  async fn(t) {
+    ctx = await setupBrowser();
+
+    await t.step('counts reconcile operations and matches per phase, and adds measures', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { getProfilingStats, repeat, resetProfilingStats, setProfiling } from "./src/core/mod.ts";
+
+          class ProfiledList extends HTMLPropsMixin(HTMLElement, {
+            items: prop<string[]>(["a", "b", "c"]),
+          }) {
+            render() {
+              return new Ul({
+                content: repeat(this.items, (item) => item, (item) => new Li({ textContent: item })),
+              });
+            }
+          }
+          customElements.define("profiled-list", ProfiledList);
+
+          const el = new ProfiledList() as any;
+          document.body.appendChild(el);
+          Object.assign(window, { el, getProfilingStats, resetProfilingStats, setProfiling });
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const { el, getProfilingStats, resetProfilingStats, setProfiling } = window as any;
+        const measures = (name: string) => performance.getEntriesByName(name, 'measure').length;
+
+        setProfiling(true);
+        el.items = ['c', 'a', 'd'];
+        await el.updateComplete;
+        const { renderTime, reconcileTime, ...stats } = getProfilingStats();
+        const timed = renderTime >= 0 && reconcileTime >= 0;
+        const measured = [measures('html-props:render profiled-list'), measures('html-props:reconcile profiled-list')];
+
+        resetProfilingStats();
+        const reset = getProfilingStats().renders;
+
+        setProfiling(false);
+        el.items = ['a'];
+        await el.updateComplete;
+
+        return { stats, timed, measured, reset, disabled: getProfilingStats().renders };
+      });
+
+      assertEquals(result.stats, {
+        renders: 1,
+        reconciles: 1,
+        inserted: 1,
+        moved: 1,
+        morphed: 3,
+        removed: 1,
+        matchedByKey: 2,
+        matchedById: 0,
+        matchedByEquality: 0,
+        matchedByTag: 1,
+      });
+      assertEquals(result.timed, true);
+      assertEquals(result.measured, [1, 1]);
+      assertEquals(result.reset, 0);
+      assertEquals(result.disabled, 0);
+    });
+
+    await teardownBrowser(ctx);
+  },
+});
@@ -0,0 +1,258 @@
+/**
+ * Keyed List Tests (Playwright)
+ *
+ * Tests the key prop and the repeat() helper.
+ *
+ * @module
+ */
+
+import { assertEquals } from '@std/assert';
+import { loadTestPage, setupBrowser, teardownBrowser, TEST_OPTIONS, type TestContext } from '../../test-utils/mod.ts';
+
+let ctx: TestContext;
+
+Deno.test({
+  name: 'Keyed List Tests',
+  ...TEST_OPTIONS,
+
+  async fn(t) {
+    ctx = await setupBrowser();
+
+    await t.step('key prop is not rendered as an attribute', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { PROPS_CONTROLLER } from "./src/core/mod.ts";
+
+          const el = new Li({ key: "item-1", textContent: "One" }) as any;
+          document.body.appendChild(el);
+
+          (window as any).result = {
+            html: el.outerHTML,
+            key: el[PROPS_CONTROLLER].key,
+          };
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result.html, '<li is="html-li">One</li>');
+      assertEquals(result.key, 'item-1');
+    });
+
+    await t.step('repeat() preserves element identity when a large list is reordered', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { repeat } from "./src/core/mod.ts";
+
+          class KeyedList extends HTMLPropsMixin(HTMLElement, {
+            items: prop<number[]>([]),
+          }) {
+            render() {
+              return new Ul({
+                content: repeat(this.items, (item) => item, (item) => new Li({ textContent: \`Item \${item}\` })),
+              });
+            }
+          }
+          customElements.define("keyed-list", KeyedList);
+
+          const items = Array.from({ length: 500 }, (_, i) => i);
+          const el = new KeyedList({ items }) as any;
+          document.body.appendChild(el);
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = (window as any).el;
+        const before = new Map<string, Element>();
+        for (const li of el.querySelectorAll('li')) before.set(li.textContent, li);
+
+        // Reverse, drop one item and add a new one
+        el.items = [...el.items].reverse().filter((item: number) => item !== 250).concat(500);
+        await el.updateComplete;
+
+        const lis = [...el.querySelectorAll('li')];
+        return {
+          count: lis.length,
+          first: lis[0].textContent,
+          last: lis[lis.length - 1].textContent,
+          preserved: lis.filter((li) => before.get(li.textContent!) === li).length,
+          removed: before.get('Item 250')!.isConnected,
+          dataKeys: el.querySelectorAll('[data-key]').length,
+        };
+      });
+
+      assertEquals(result.count, 500);
+      assertEquals(result.first, 'Item 499');
+      assertEquals(result.last, 'Item 500');
+      assertEquals(result.preserved, 499);
+      assertEquals(result.removed, false);
+      assertEquals(result.dataKeys, 0);
+    });
+
+    await t.step('repeat() keys plain DOM nodes and text', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { repeat } from "./src/core/mod.ts";
+
+          class PlainList extends HTMLPropsMixin(HTMLElement, {
+            items: prop<string[]>(["a", "b", "c"]),
+          }) {
+            render() {
+              return [
+                new Div({
+                  content: repeat(this.items, (item) => item, (item) => {
+                    const input = document.createElement("input");
+                    input.name = item;
+                    return input;
+                  }),
+                }),
+                new Span({ content: repeat(this.items, (item) => item, (item) => item) }),
+              ];
+            }
+          }
+          customElements.define("plain-list", PlainList);
+
+          const el = new PlainList() as any;
+          document.body.appendChild(el);
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = (window as any).el;
+        const input = el.querySelector('input[name="a"]') as HTMLInputElement;
+        input.value = 'typed';
+        const text = el.querySelector('span').firstChild;
+
+        el.items = ['c', 'b', 'a'];
+        await el.updateComplete;
+
+        return {
+          names: [...el.querySelectorAll('input')].map((i: HTMLInputElement) => i.name),
+          sameInput: el.querySelector('input[name="a"]') === input,
+          value: input.value,
+          text: el.querySelector('span').textContent,
+          sameText: el.querySelector('span').lastChild === text,
+        };
+      });
+
+      assertEquals(result.names, ['c', 'b', 'a']);
+      assertEquals(result.sameInput, true);
+      assertEquals(result.value, 'typed');
+      assertEquals(result.text, 'cba');
+      assertEquals(result.sameText, true);
+    });
+
+    await t.step('elements with different keys are not morphed into each other', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          class TabList extends HTMLPropsMixin(HTMLElement, {
+            tabs: prop<string[]>(["one", "two"]),
+          }) {
+            render() {
+              return this.tabs.map((tab) => new Button({ key: tab, textContent: tab }));
+            }
+          }
+          customElements.define("tab-list", TabList);
+
+          const el = new TabList() as any;
+          document.body.appendChild(el);
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = (window as any).el;
+        const two = el.querySelectorAll('button')[1];
+
+        el.tabs = ['two'];
+        await el.updateComplete;
+
+        return {
+          count: el.querySelectorAll('button').length,
+          sameNode: el.querySelector('button') === two,
+        };
+      });
+
+      assertEquals(result.count, 1);
+      assertEquals(result.sameNode, true);
+    });
+
+    await t.step('unkeyed nodes are matched by descendant id, then equality, then tag name', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          class MixedList extends HTMLPropsMixin(HTMLElement, {
+            label: prop("a"),
+            reversed: prop(false),
+          }) {
+            render() {
+              const field = (id: string) => {
+                const p = document.createElement("p");
+                p.innerHTML = '<input id="' + id + '"> ' + this.label;
+                return p;
+              };
+              const text = (tag: string, value: string) => {
+                const element = document.createElement(tag);
+                element.textContent = value;
+                return element;
+              };
+              const nodes = [field("first"), field("second"), text("em", "one"), text("em", "two"), text("b", this.label)];
+              return this.reversed ? nodes.reverse() : nodes;
+            }
+          }
+          customElements.define("mixed-list", MixedList);
+
+          const el = new MixedList() as any;
+          document.body.appendChild(el);
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = (window as any).el;
+        const [first, second, one, two, bold] = Array.from(el.children);
+        const input = el.querySelector('#first');
+
+        el.label = 'z';
+        el.reversed = true;
+        await el.updateComplete;
+
+        return {
+          html: el.innerHTML,
+          sameNodes: [bold, two, one, second, first].every((node, index) => el.children[index] === node),
+          sameInput: el.querySelector('#first') === input,
+        };
+      });
+
+      assertEquals(
+        result.html,
+        '<b>z</b><em>two</em><em>one</em><p><input id="second"> z</p><p><input id="first"> z</p>',
+      );
+      assertEquals(result.sameNodes, true);
+      assertEquals(result.sameInput, true);
+    });
+
+    await t.step('repeat() warns about duplicate keys in dev mode', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { repeat, setDevMode } from "./src/core/mod.ts";
+
+          const warnings: string[] = [];
+          console.warn = (message: string) => warnings.push(message);
+          setDevMode(true);
+
+          repeat(["a", "b", "a"], (item) => item, (item) => new Span({ textContent: item }));
+
+          (window as any).result = { warnings };
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result.warnings, [
+        '[html-props] repeat() received duplicate key "a", element identity may not be preserved',
+      ]);
+    });
+
+    await teardownBrowser(ctx);
+  },
+});
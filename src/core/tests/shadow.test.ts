@@ -101,9 +101,10 @@ Deno.test({
       assertEquals(initial.renderCount, 1);
       assertEquals(initial.innerHTML, 'Count: 0');
 
-      const afterUpdate = await ctx.page.evaluate(() => {
+      const afterUpdate = await ctx.page.evaluate(async () => {
         const el = (window as any).testElement;
         el.count = 5;
+        await el.updateComplete;
         return {
           renderCount: (window as any).getRenderCount(),
           innerHTML: el.shadowRoot.innerHTML,
@@ -1049,8 +1050,9 @@ Deno.test({
       assertEquals(initial.renderCount, 1);
       assertEquals(initial.innerHTML, 'Count: 0');
 
-      const afterUpdate = await ctx.page.evaluate(() => {
+      const afterUpdate = await ctx.page.evaluate(async () => {
         (window as any).el.count = 1;
+        await (window as any).el.updateComplete;
         return {
           updateCount: (window as any).getUpdateCount(),
           renderCount: (window as any).getRenderCount(),
@@ -1144,20 +1146,23 @@ Deno.test({
       });
       assertEquals(initial, 'Count: 0');
 
-      const afterLow = await ctx.page.evaluate(() => {
+      const afterLow = await ctx.page.evaluate(async () => {
         (window as any).el.count = 4;
+        await (window as any).el.updateComplete;
         return (window as any).el.shadowRoot.innerHTML;
       });
       assertEquals(afterLow, 'Count: 4');
 
-      const afterHigh = await ctx.page.evaluate(() => {
+      const afterHigh = await ctx.page.evaluate(async () => {
         (window as any).el.count = 6;
+        await (window as any).el.updateComplete;
         return (window as any).el.shadowRoot.innerHTML;
       });
       assertEquals(afterHigh, 'Too high!');
 
-      const afterLowAgain = await ctx.page.evaluate(() => {
+      const afterLowAgain = await ctx.page.evaluate(async () => {
         (window as any).el.count = 2;
+        await (window as any).el.updateComplete;
         return (window as any).el.shadowRoot.innerHTML;
       });
       assertEquals(afterLowAgain, 'Count: 2');
@@ -1195,8 +1200,9 @@ Deno.test({
       });
       assertEquals(initial, 1);
 
-      const afterRequestUpdate = await ctx.page.evaluate(() => {
+      const afterRequestUpdate = await ctx.page.evaluate(async () => {
         (window as any).el.requestUpdate();
+        await (window as any).el.updateComplete;
         return (window as any).getRenderCount();
       });
       assertEquals(afterRequestUpdate, 2);
@@ -0,0 +1,135 @@
+/**
+ * Named Slot Tests (Playwright)
+ *
+ * Tests the slots config option: slot assignment and per-slot reconciliation of Light DOM content.
+ *
+ * @module
+ */
+
+import { assertEquals } from '@std/assert';
+import { loadTestPage, setupBrowser, teardownBrowser, TEST_OPTIONS, type TestContext } from '../../test-utils/mod.ts';
+
+let ctx: TestContext;
+
+Deno.test({
+  name: 'Named Slot Tests',
+  ...TEST_OPTIONS,
+
+  async fn(t) {
+    ctx = await setupBrowser();
+
+    await t.step('assigns slot props to their named slots', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { Slot } from "./src/built-ins/mod.ts";
+
+          class Card extends HTMLPropsMixin(HTMLElement, {
+            shadow: true,
+            slots: ["header", "footer"] as const,
+          }) {
+            render() {
+              return [new Slot({ name: "header" }), new Slot(), new Slot({ name: "footer" })];
+            }
+          }
+          customElements.define("slot-card", Card);
+
+          const el = new Card({
+            header: new Span({ textContent: "Title" }),
+            content: [new Div({ textContent: "Body" }), "text"],
+            footer: "Footer",
+          }) as any;
+          document.body.appendChild(el);
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => {
+        const el = (window as any).el;
+        const assigned = (selector: string) =>
+          el.shadowRoot.querySelector(selector).assignedNodes().map((node: Node) => node.textContent);
+        return {
+          html: el.innerHTML,
+          header: assigned('slot[name="header"]'),
+          body: assigned('slot:not([name])'),
+          footer: assigned('slot[name="footer"]'),
+          prop: el.header.textContent,
+        };
+      });
+
+      assertEquals(
+        result.html,
+        '<div is="html-div">Body</div>text<span is="html-span" slot="header">Title</span><span slot="footer">Footer</span>',
+      );
+      assertEquals(result.header, ['Title']);
+      assertEquals(result.body, ['Body', 'text']);
+      assertEquals(result.footer, ['Footer']);
+      assertEquals(result.prop, 'Title');
+    });
+
+    await t.step('reconciles each slot separately from the default content', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { Slot } from "./src/built-ins/mod.ts";
+
+          class Panel extends HTMLPropsMixin(HTMLElement, {
+            shadow: true,
+            slots: ["actions"] as const,
+          }) {
+            render() {
+              return [new Slot(), new Slot({ name: "actions" })];
+            }
+          }
+          customElements.define("slot-panel", Panel);
+
+          class Page extends HTMLPropsMixin(HTMLElement, {
+            saved: prop(false),
+          }) {
+            render() {
+              return new Panel({
+                content: new Div({ textContent: this.saved ? "Saved" : "Editing" }),
+                actions: [
+                  new Button({ key: "save", textContent: "Save", disabled: this.saved }),
+                  new Button({ key: "cancel", textContent: "Cancel" }),
+                ],
+              });
+            }
+          }
+          customElements.define("slot-page", Page);
+
+          const page = new Page() as any;
+          document.body.appendChild(page);
+          (window as any).page = page;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const page = (window as any).page;
+        const panel = page.querySelector('slot-panel');
+        const body = panel.querySelector('div');
+        const [save, cancel] = panel.querySelectorAll('button');
+
+        page.saved = true;
+        await page.updateComplete;
+        const afterRender = {
+          body: body.textContent,
+          sameNodes: panel.querySelector('div') === body && panel.querySelectorAll('button')[0] === save,
+          disabled: save.disabled,
+        };
+
+        // Replacing one slot keeps the default content and the other nodes in place
+        panel.actions = cancel;
+        const afterSetter = {
+          buttons: Array.from(panel.querySelectorAll('button'), (button: Element) => button.textContent),
+          body: panel.querySelector('div') === body,
+        };
+
+        return { afterRender, afterSetter };
+      });
+
+      assertEquals(result.afterRender, { body: 'Saved', sameNodes: true, disabled: true });
+      assertEquals(result.afterSetter, { buttons: ['Cancel'], body: true });
+    });
+
+    await teardownBrowser(ctx);
+  },
+});
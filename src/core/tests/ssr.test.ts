@@ -0,0 +1,183 @@
+/**
+ * Server-Side Rendering Tests (Playwright)
+ *
+ * Tests renderToString() serialization of html-props components.
+ *
+ * @module
+ */
+
+import { assertEquals } from '@std/assert';
+import { loadTestPage, setupBrowser, teardownBrowser, TEST_OPTIONS, type TestContext } from '../../test-utils/mod.ts';
+
+let ctx: TestContext;
+
+Deno.test({
+  name: 'SSR Tests',
+  ...TEST_OPTIONS,
+
+  async fn(t) {
+    ctx = await setupBrowser();
+
+    await t.step('renders component render() output', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { renderToString } from "./src/core/mod.ts";
+
+          class Greeting extends HTMLPropsMixin(HTMLElement, {
+            name: prop("World"),
+          }) {
+            render() {
+              return new Span({ textContent: \`Hello, \${this.name}!\` });
+            }
+          }
+          customElements.define("ssr-greeting", Greeting);
+
+          (window as any).result = renderToString(new Greeting({ name: "Deno" }));
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result, '<ssr-greeting data-hydrate><span is="html-span">Hello, Deno!</span></ssr-greeting>');
+    });
+
+    await t.step('serializes customized built-ins with is attribute, styles and nested content', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { renderToString } from "./src/core/mod.ts";
+
+          (window as any).result = renderToString([
+            new Div({
+              id: "root",
+              style: { color: "red" },
+              content: [
+                new Input({ type: "checkbox" }),
+                new Ul({ content: [new Li({ textContent: "a" }), new Li({ textContent: "b" })] }),
+              ],
+            }),
+          ]);
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(
+        result,
+        '<div is="html-div" id="root" style="color: red;">' +
+          '<input is="html-input" type="checkbox">' +
+          '<ul is="html-ul"><li is="html-li">a</li><li is="html-li">b</li></ul>' +
+          '</div>',
+      );
+    });
+
+    await t.step('includes reflected attributes', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { renderToString } from "./src/core/mod.ts";
+
+          class Badge extends HTMLPropsMixin(HTMLElement, {
+            variant: prop("info", { attribute: true }),
+            active: prop(false, { attribute: true }),
+            count: prop(0, { attribute: "data-count" }),
+          }) {
+            render() {
+              return document.createTextNode(this.variant);
+            }
+          }
+          customElements.define("ssr-badge", Badge);
+
+          (window as any).result = renderToString(new Badge({ variant: "warn", active: true, count: 3 }));
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result, '<ssr-badge variant="warn" active data-count="3" data-hydrate>warn</ssr-badge>');
+    });
+
+    await t.step('emits declarative shadow DOM for shadow components', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { renderToString } from "./src/core/mod.ts";
+
+          class Card extends HTMLPropsMixin(HTMLElement, {
+            shadow: true,
+            title: prop(""),
+          }) {
+            render() {
+              return [new Div({ textContent: this.title }), document.createElement("slot")];
+            }
+          }
+          customElements.define("ssr-card", Card);
+
+          (window as any).result = renderToString(
+            new Card({ title: "Card", content: new Span({ textContent: "Body" }) }),
+          );
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(
+        result,
+        '<ssr-card data-hydrate><template shadowrootmode="open"><div is="html-div">Card</div><slot></slot></template>' +
+          '<span is="html-span">Body</span></ssr-card>',
+      );
+    });
+
+    await t.step('escapes text and attribute values', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { renderToString } from "./src/core/mod.ts";
+
+          const style = document.createElement("style");
+          style.textContent = "a > b { color: red; }";
+
+          (window as any).result = renderToString([
+            new Span({ title: 'say "hi" & bye', textContent: "<b>1 & 2</b>" }),
+            style,
+          ]);
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(
+        result,
+        '<span is="html-span" title="say &quot;hi&quot; &amp; bye">&lt;b&gt;1 &amp; 2&lt;/b&gt;</span>' +
+          '<style>a > b { color: red; }</style>',
+      );
+    });
+
+    await t.step('server output upgrades into working components', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { renderToString } from "./src/core/mod.ts";
+
+          class Panel extends HTMLPropsMixin(HTMLElement, {
+            shadow: true,
+            label: prop("Panel"),
+          }) {
+            render() {
+              return new Div({ textContent: this.label });
+            }
+          }
+          customElements.define("ssr-panel", Panel);
+
+          const html = renderToString(new Panel({ label: "Server" }));
+          const container = document.createElement("div");
+          container.setHTMLUnsafe(html);
+          document.body.appendChild(container);
+
+          const panel = container.querySelector("ssr-panel") as any;
+          (window as any).result = {
+            hasShadowRoot: !!panel.shadowRoot,
+            shadowText: panel.shadowRoot?.textContent,
+          };
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result.hasShadowRoot, true);
+      // The client renders with default props and morphs the server markup
+      assertEquals(result.shadowText, 'Panel');
+    });
+
+    await teardownBrowser(ctx);
+  },
+});
@@ -0,0 +1,168 @@
+/**
+ * Static Styles Tests (Playwright)
+ *
+ * Tests the css tagged template and static styles on shadow DOM components.
+ *
+ * @module
+ */
+
+import { assertEquals } from '@std/assert';
+import { loadTestPage, setupBrowser, teardownBrowser, TEST_OPTIONS, type TestContext } from '../../test-utils/mod.ts';
+
+let ctx: TestContext;
+
+Deno.test({
+  name: 'Static Styles Tests',
+  ...TEST_OPTIONS,
+
+  async fn(t) {
+    ctx = await setupBrowser();
+
+    await t.step('adopts one shared stylesheet per class into each shadow root', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { css } from "./src/core/mod.ts";
+
+          const size = css\`12px\`;
+
+          class StyledCard extends HTMLPropsMixin(HTMLElement, {
+            shadow: true,
+            label: prop("Card"),
+          }) {
+            static styles = [css\`:host { display: block; }\`, css\`span { color: rgb(255, 0, 0); font-size: \${size}; }\`];
+
+            render() {
+              return new Span({ textContent: this.label });
+            }
+          }
+          customElements.define("styled-card", StyledCard);
+
+          const a = new StyledCard() as any;
+          const b = new StyledCard() as any;
+          document.body.append(a, b);
+          (window as any).a = a;
+          (window as any).b = b;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const { a, b } = window as any;
+        a.label = 'Updated';
+        await a.updateComplete;
+        const span = a.shadowRoot.querySelector('span');
+        return {
+          sheets: a.shadowRoot.adoptedStyleSheets.length,
+          shared: a.shadowRoot.adoptedStyleSheets.every((sheet: CSSStyleSheet, i: number) =>
+            sheet === b.shadowRoot.adoptedStyleSheets[i]
+          ),
+          color: getComputedStyle(span).color,
+          fontSize: getComputedStyle(span).fontSize,
+          display: getComputedStyle(a).display,
+          styleElements: a.shadowRoot.querySelectorAll('style').length,
+          text: span.textContent,
+        };
+      });
+
+      assertEquals(result.sheets, 2);
+      assertEquals(result.shared, true);
+      assertEquals(result.color, 'rgb(255, 0, 0)');
+      assertEquals(result.fontSize, '12px');
+      assertEquals(result.display, 'block');
+      assertEquals(result.styleElements, 0);
+      assertEquals(result.text, 'Updated');
+    });
+
+    await t.step('falls back to <style> elements without constructable stylesheets', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { css } from "./src/core/mod.ts";
+
+          delete (ShadowRoot.prototype as any).adoptedStyleSheets;
+
+          class FallbackCard extends HTMLPropsMixin(HTMLElement, {
+            shadow: true,
+            items: prop<string[]>(["a"]),
+          }) {
+            static styles = css\`li { color: rgb(0, 0, 255); }\`;
+
+            render() {
+              return this.items.map((item) => new Li({ textContent: item }));
+            }
+          }
+          customElements.define("fallback-card", FallbackCard);
+
+          const el = new FallbackCard() as any;
+          document.body.appendChild(el);
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = (window as any).el;
+        el.items = ['b', 'c'];
+        await el.updateComplete;
+        const styles = el.shadowRoot.querySelectorAll('style');
+        return {
+          styles: styles.length,
+          css: styles[0]?.textContent,
+          items: [...el.shadowRoot.querySelectorAll('li')].map((li: Element) => li.textContent),
+          color: getComputedStyle(el.shadowRoot.querySelector('li')).color,
+        };
+      });
+
+      assertEquals(result.styles, 1);
+      assertEquals(result.css, 'li { color: rgb(0, 0, 255); }');
+      assertEquals(result.items, ['b', 'c']);
+      assertEquals(result.color, 'rgb(0, 0, 255)');
+    });
+
+    await t.step('renderToString inlines styles that are adopted on hydration', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { css, renderToString, setDevMode } from "./src/core/mod.ts";
+
+          const warnings: string[] = [];
+          console.warn = (message: string) => warnings.push(message);
+          setDevMode(true);
+
+          class SsrStyled extends HTMLPropsMixin(HTMLElement, {
+            shadow: true,
+          }) {
+            static styles = css\`b { font-weight: 400; }\`;
+
+            render() {
+              return new Span({ textContent: "Styled" });
+            }
+          }
+          customElements.define("ssr-styled", SsrStyled);
+
+          const html = renderToString(new SsrStyled());
+          const container = document.createElement("div");
+          container.setHTMLUnsafe(html);
+          document.body.appendChild(container);
+          const el = container.querySelector("ssr-styled") as any;
+
+          (window as any).result = {
+            html,
+            warnings,
+            styleElements: el.shadowRoot.querySelectorAll("style").length,
+            sheets: el.shadowRoot.adoptedStyleSheets.length,
+          };
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(
+        result.html,
+        '<ssr-styled data-hydrate><template shadowrootmode="open">' +
+          '<style data-html-props-styles>b { font-weight: 400; }</style>' +
+          '<span is="html-span">Styled</span></template></ssr-styled>',
+      );
+      assertEquals(result.warnings, []);
+      assertEquals(result.styleElements, 0);
+      assertEquals(result.sheets, 1);
+    });
+
+    await teardownBrowser(ctx);
+  },
+});
@@ -0,0 +1,138 @@
+/**
+ * Transition Tests (Playwright)
+ *
+ * Tests enter, exit and move animations of the transition prop during reconciliation.
+ *
+ * @module
+ */
+
+import { assertEquals } from '@std/assert';
+import { loadTestPage, setupBrowser, teardownBrowser, TEST_OPTIONS, type TestContext } from '../../test-utils/mod.ts';
+
+let ctx: TestContext;
+
+Deno.test({
+  name: 'Transition Tests',
+  ...TEST_OPTIONS,
+
+  async fn(t) {
+    ctx = await setupBrowser();
+
+    await t.step('defers removal until the exit animation finishes and handles re-entry', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { repeat } from "./src/core/mod.ts";
+
+          const transition = {
+            enter: [{ opacity: 0 }, { opacity: 1 }],
+            exit: [{ opacity: 1 }, { opacity: 0 }],
+            options: { duration: 100 },
+          };
+
+          class FadeList extends HTMLPropsMixin(HTMLElement, {
+            items: prop<string[]>(["a", "b", "c"]),
+          }) {
+            render() {
+              return new Ul({
+                content: repeat(this.items, (item) => item, (item) => new Li({ textContent: item, transition })),
+              });
+            }
+          }
+          customElements.define("fade-list", FadeList);
+
+          const el = new FadeList() as any;
+          document.body.appendChild(el);
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = (window as any).el;
+        const texts = () => Array.from(el.querySelectorAll('li'), (li: Element) => li.textContent).join('');
+        const item = (text: string) =>
+          Array.from(el.querySelectorAll('li') as Element[]).find((li) => li.textContent === text)!;
+        const initialAnimations = el.querySelector('ul').getAnimations({ subtree: true }).length;
+
+        const b = item('b');
+        el.items = ['a', 'c', 'd'];
+        await el.updateComplete;
+        const exiting = {
+          texts: texts(),
+          bAnimations: b.getAnimations().length,
+          dAnimations: item('d').getAnimations().length,
+        };
+
+        await b.getAnimations()[0]!.finished;
+        await new Promise((resolve) => setTimeout(resolve));
+        const removed = texts();
+
+        // Re-enter while exiting: the node is reused and not removed when the exit would have finished
+        const c = item('c');
+        el.items = ['a', 'd'];
+        await el.updateComplete;
+        el.items = ['a', 'c', 'd'];
+        await el.updateComplete;
+        await new Promise((resolve) => setTimeout(resolve, 150));
+
+        return { initialAnimations, exiting, removed, reentered: texts(), sameNode: item('c') === c };
+      });
+
+      assertEquals(result.initialAnimations, 0);
+      assertEquals(result.exiting, { texts: 'abcd', bAnimations: 1, dAnimations: 1 });
+      assertEquals(result.removed, 'acd');
+      assertEquals(result.reentered, 'acd');
+      assertEquals(result.sameNode, true);
+    });
+
+    await t.step('animates moved keyed children from their previous position', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { repeat } from "./src/core/mod.ts";
+
+          class SortedList extends HTMLPropsMixin(HTMLElement, {
+            items: prop<string[]>(["a", "b", "c"]),
+          }) {
+            render() {
+              return new Ul({
+                style: { margin: "0", padding: "0", listStyle: "none" },
+                content: repeat(this.items, (item) => item, (item) =>
+                  new Li({
+                    textContent: item,
+                    style: { height: "20px" },
+                    transition: { move: true, options: { duration: 1000 } },
+                  })),
+              });
+            }
+          }
+          customElements.define("sorted-list", SortedList);
+
+          const el = new SortedList() as any;
+          document.body.appendChild(el);
+          (window as any).el = el;
+        `,
+      });
+
+      const result = await ctx.page.evaluate(async () => {
+        const el = (window as any).el;
+        const [a, b, c] = el.querySelectorAll('li');
+        el.items = ['c', 'a', 'b'];
+        await el.updateComplete;
+
+        const startTransform = (li: Element) => {
+          const [animation] = li.getAnimations();
+          if (!animation) return null;
+          return ((animation.effect as KeyframeEffect).getKeyframes()[0] as Keyframe).transform;
+        };
+        return {
+          order: Array.from(el.querySelectorAll('li'), (li: Element) => li.textContent).join(''),
+          transforms: [startTransform(a), startTransform(b), startTransform(c)],
+        };
+      });
+
+      assertEquals(result.order, 'cab');
+      assertEquals(result.transforms, ['translate(0px, -20px)', 'translate(0px, -20px)', 'translate(0px, 40px)']);
+    });
+
+    await teardownBrowser(ctx);
+  },
+});
@@ -0,0 +1,172 @@
+/**
+ * Prop Validation Tests (Playwright)
+ *
+ * Tests dev mode validation of prop types, validate() and required.
+ *
+ * @module
+ */
+
+import { assertEquals } from '@std/assert';
+import { loadTestPage, setupBrowser, teardownBrowser, TEST_OPTIONS, type TestContext } from '../../test-utils/mod.ts';
+
+let ctx: TestContext;
+
+Deno.test({
+  name: 'Prop Validation Tests',
+  ...TEST_OPTIONS,
+
+  async fn(t) {
+    ctx = await setupBrowser();
+
+    await t.step('reports values that do not match the declared type', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { setDevMode } from "./src/core/mod.ts";
+
+          const errors: string[] = [];
+          console.error = (message: string) => errors.push(message);
+          setDevMode(true);
+
+          class TypedProps extends HTMLPropsMixin(HTMLElement, {
+            count: prop<number>(0, { type: Number }),
+            items: prop<string[]>([], { type: Array }),
+          }) {}
+          customElements.define("typed-props", TypedProps);
+
+          const el = new TypedProps({ count: "5" as any }) as any;
+          el.items = { length: 0 };
+          el.count = 3;
+          el.items = ["a"];
+
+          (window as any).result = { errors, count: el.count };
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result.errors, [
+        '[html-props] <typed-props> prop "count" expected Number, got String "5"',
+        '[html-props] <typed-props> prop "items" expected Array, got Object',
+      ]);
+      // Validation only reports, values are still applied
+      assertEquals(result.count, 3);
+    });
+
+    await t.step('validates attribute values and custom validate() functions', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { setDevMode } from "./src/core/mod.ts";
+
+          const errors: string[] = [];
+          console.error = (message: string) => errors.push(message);
+          setDevMode(true);
+
+          class RangeProps extends HTMLPropsMixin(HTMLElement, {
+            level: prop(1, {
+              type: Number,
+              attribute: true,
+              validate: (value) => value >= 1 && value <= 5 || "must be between 1 and 5",
+            }),
+            name: prop("", { validate: (value) => value.length < 5 }),
+          }) {}
+          customElements.define("range-props", RangeProps);
+
+          const el = new RangeProps() as any;
+          el.setAttribute("level", "9");
+          el.setAttribute("level", "abc");
+          el.name = "too long";
+          el.level = 2;
+
+          (window as any).result = { errors };
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result.errors, [
+        '[html-props] <range-props> prop "level" must be between 1 and 5',
+        '[html-props] <range-props> prop "level" must be between 1 and 5',
+        '[html-props] <range-props> prop "name" failed validation with value String "too long"',
+      ]);
+    });
+
+    await t.step('reports missing required props when connected', async () => {
+      await loadTestPage(ctx.page, {
+        body: `<required-props label="Set"></required-props>`,
+        code: `
+          import { setDevMode } from "./src/core/mod.ts";
+
+          const errors: string[] = [];
+          console.error = (message: string) => errors.push(message);
+          setDevMode(true);
+
+          class RequiredProps extends HTMLPropsMixin(HTMLElement, {
+            label: prop<string | null>(null, { attribute: true, required: true }),
+            user: prop<object | null>(null, { type: Object, required: true }),
+          }) {}
+          customElements.define("required-props", RequiredProps);
+
+          const fromMarkup = [...errors];
+
+          document.body.appendChild(new RequiredProps({ label: "New", user: {} }));
+          const complete = errors.length - fromMarkup.length;
+
+          (window as any).result = { fromMarkup, complete };
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result.fromMarkup, ['[html-props] <required-props> prop "user" is required but got null']);
+      assertEquals(result.complete, 0);
+    });
+
+    await t.step('names customized built-ins with their is value', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { setDevMode } from "./src/core/mod.ts";
+
+          const errors: string[] = [];
+          console.error = (message: string) => errors.push(message);
+          setDevMode(true);
+
+          class FancyButton extends HTMLPropsMixin(HTMLButtonElement, {
+            size: prop("small", { type: String }),
+          }) {}
+          FancyButton.define("fancy-button", { extends: "button" });
+
+          new FancyButton({ size: 2 as any });
+
+          (window as any).result = { errors };
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result.errors, [
+        '[html-props] <button is="fancy-button"> prop "size" expected String, got Number 2',
+      ]);
+    });
+
+    await t.step('does not validate outside of dev mode', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          const errors: string[] = [];
+          console.error = (message: string) => errors.push(message);
+
+          class QuietProps extends HTMLPropsMixin(HTMLElement, {
+            count: prop(0, { type: Number, required: true, validate: () => false }),
+          }) {}
+          customElements.define("quiet-props", QuietProps);
+
+          const el = new QuietProps({ count: "x" as any }) as any;
+          el.count = null;
+          document.body.appendChild(el);
+
+          (window as any).result = { errors };
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result.errors, []);
+    });
+
+    await teardownBrowser(ctx);
+  },
+});
@@ -1,3 +1,5 @@
+import type { ReadonlySignal, Signal } from '@html-props/signals';
+
 // Minimal interface for DOM elements to avoid type errors if lib.dom is missing
 export interface HTMLElementLike {
   connectedCallback?(): void;
@@ -17,8 +19,14 @@ export interface HTMLElementLike {
     listener: EventListener,
     options?: boolean | AddEventListenerOptions,
   ): void;
+  removeEventListener(
+    type: string,
+    listener: EventListener,
+    options?: boolean | EventListenerOptions,
+  ): void;
   replaceChildren(...nodes: (Node | string)[]): void;
   style: CSSStyleDeclaration;
+  classList: DOMTokenList;
   dataset: DOMStringMap;
   textContent: string | null;
   shadowRoot: ShadowRoot | null;
@@ -40,6 +48,62 @@ export interface HTMLElementLike {
   innerHTML: string;
 }
 
+/**
+ * Event listener for the `on` prop, optionally with addEventListener options.
+ */
+export type EventListenerEntry<E = Event> =
+  | ((event: E) => void)
+  | [(event: E) => void, boolean | AddEventListenerOptions];
+
+/**
+ * Map of event names to listeners for the `on` prop.
+ * Supports any event name, including custom events like `value-changed`.
+ */
+export type EventListenerMap =
+  & { [K in keyof HTMLElementEventMap]?: EventListenerEntry<HTMLElementEventMap[K]> | null }
+  & { [type: string]: EventListenerEntry<any> | null | undefined };
+
+/**
+ * Value of the `classes` prop: a class string, an array of class names or a `{ name: enabled }` record.
+ */
+export type ClassNames =
+  | string
+  | (string | false | null | undefined)[]
+  | Record<string, boolean | null | undefined>;
+
+/**
+ * Value of the `attrs` prop. `true` sets an empty attribute, `false`, `null` and `undefined` remove it.
+ */
+export type AttributeMap = Record<string, string | number | boolean | null | undefined>;
+
+/**
+ * A value, or a signal or function that is bound to the property: it is read in an effect and only
+ * that property is updated when it changes.
+ */
+export type Bindable<T> = T | (() => T);
+
+/**
+ * Value of the `style` prop as an object. Properties can be signals or functions (`width: () => w() + 'px'`).
+ */
+export type BindableStyle = { [K in keyof CSSStyleDeclaration]?: Bindable<CSSStyleDeclaration[K]> };
+
+/**
+ * Native properties accepted as props. Signals are bound to the property, plain functions are assigned as values.
+ */
+export type BindableProps<T> = { [K in keyof T]?: T[K] | ReadonlySignal<T[K]> };
+
+/**
+ * Signal for the `bind` prop of form controls: text for text inputs, textareas and selects, a number (null when
+ * empty) for number and range inputs, a boolean for checkboxes, the checked value for radio buttons and the
+ * selected values for multiple selects.
+ */
+export type BindSignal =
+  | Signal<string>
+  | Signal<string | null>
+  | Signal<number | null>
+  | Signal<boolean>
+  | Signal<string[]>;
+
 export type Constructor<T = HTMLElementLike> = new (...args: any[]) => T;
 
 export type PropType =
@@ -50,15 +114,60 @@ export type PropType =
   | ObjectConstructor
   | FunctionConstructor;
 
+/**
+ * Converts a prop value from and to its attribute string.
+ */
+export interface AttributeConverter<T = any> {
+  /** Convert an attribute value to a prop value. Return undefined to ignore the attribute value. */
+  fromAttribute?(value: string | null, type?: PropType): T | undefined;
+  /** Convert a prop value to an attribute value. Return null to remove the attribute. */
+  toAttribute?(value: T, type?: PropType): string | null;
+}
+
 export interface PropConfig {
   type?: PropType;
   default?: unknown;
   attribute?: boolean | string;
+  converter?: AttributeConverter;
   event?: string;
+  /** Report an error in dev mode when the prop is null or undefined once connected. */
+  required?: boolean;
+  /** Dev mode check for prop values. Return false or an error message to reject the value. */
+  validate?: (value: any) => boolean | string;
 }
 
 export type Prop<T> = { default: T } & PropConfig;
 
+/**
+ * Config entry of a computed prop, created with computed(). A read-only value derived from other props.
+ */
+export interface ComputedConfig<T = unknown> {
+  /** Computes the value from the host's props */
+  computed: (host: any) => T;
+  /** Reflect the value to an attribute */
+  attribute?: boolean | string;
+  converter?: AttributeConverter<T>;
+  type?: PropType;
+}
+
+/** Keys of computed props in a config */
+type ComputedKeys<C> = { [K in keyof C]: C[K] extends ComputedConfig ? K : never }[keyof C];
+
+/** A value accepted by ElementInternals.setFormValue() */
+export type FormValue = File | string | FormData | null;
+
+/**
+ * The `formAssociated` config option. `true` submits the `value` prop with the form.
+ */
+export interface FormAssociatedConfig {
+  /** Name of the prop submitted as the form value. Defaults to `value`. */
+  value?: string;
+  /** Convert the prop value to the submitted form value. Non-string values are stringified by default. */
+  toFormValue?(value: any): FormValue;
+  /** Convert a form value restored by the browser (e.g. on back navigation) to the prop value. */
+  fromFormValue?(value: FormValue): unknown;
+}
+
 // Generic PropsConfig that includes native properties of T for suggestions
 export type PropsConfig<T = any> =
   & {
@@ -99,11 +208,20 @@ type GetPropType<P> = P extends { type: infer T }
   : P extends { default: infer D } ? D
   : any;
 
+/** Slot names declared with the `slots` option (`slots: ['header', 'footer'] as const`) */
+export type SlotNames<C> = C extends { slots: readonly (infer S extends string)[] } ? S : never;
+
+/** Light DOM content props for named slots */
+export type SlotProps<C> = { [S in SlotNames<C>]?: Node | Node[] };
+
 // If T is PropConfig, use GetPropType<T>. Else use T (direct value type).
-export type InferProps<C extends PropsConfig> = {
-  [K in keyof C]: IsPropConfig<C[K]> extends true ? GetPropType<C[K]>
-    : C[K];
-};
+export type InferProps<C extends PropsConfig> =
+  & {
+    [K in Exclude<keyof C, ComputedKeys<C>>]: IsPropConfig<C[K]> extends true ? GetPropType<C[K]>
+      : C[K];
+  }
+  & { readonly [K in ComputedKeys<C>]: C[K] extends ComputedConfig<infer T> ? T : never }
+  & { [S in SlotNames<C>]: Node | Node[] | undefined };
 
 type RawInferConstructorProps<C extends PropsConfig> =
   & {
@@ -121,16 +239,44 @@ type RawInferConstructorProps<C extends PropsConfig> =
     ]?: IsPropConfig<C[K]> extends true ? GetPropType<C[K]> : C[K];
   };
 
-export type InferConstructorProps<C extends PropsConfig> = Omit<
-  RawInferConstructorProps<C>,
-  'style'
->;
+export type InferConstructorProps<C extends PropsConfig> =
+  & Omit<
+    RawInferConstructorProps<C>,
+    'style' | 'slots' | ComputedKeys<C>
+  >
+  & SlotProps<C>;
 
 export interface TypedPropConfig<T> extends Omit<PropConfig, 'type' | 'default'> {
   type: InferPropType<T>;
   default?: T;
 }
 
+/** Keyframes played with Element.animate(), or a function that starts an animation on the element */
+export type TransitionEffect =
+  | Keyframe[]
+  | PropertyIndexedKeyframes
+  | ((element: Element) => Animation | Promise<unknown> | void);
+
+/**
+ * The `transition` prop. Animates an element when reconciliation inserts, removes or moves it.
+ */
+export interface TransitionConfig {
+  /** Played when the element is inserted. Not played on the first render of its parent. */
+  enter?: TransitionEffect;
+  /** Played before the element is removed. The element stays in the DOM until it finishes. */
+  exit?: TransitionEffect;
+  /** Animate from the old to the new position when the element moves (FLIP). */
+  move?: boolean;
+  /** Timing of keyframe and move animations. Defaults to 200ms with `ease`. */
+  options?: KeyframeAnimationOptions;
+}
+
+/** Options passed to render() */
+export interface RenderOptions {
+  /** Aborted when a newer render starts or the component disconnects, e.g. to cancel a fetch in an async render() */
+  signal: AbortSignal;
+}
+
 export interface HTMLPropsInterface {
   render(): Node | Node[] | null;
 }
@@ -145,7 +291,7 @@ export type NativePropertyType<T, K extends keyof T> = K extends 'style' ? Parti
 // 2. Custom properties must be valid PropConfig
 export type PropsConfigValidator<T, C> = {
   [K in keyof C]: K extends keyof T ? NativePropertyType<T, K>
-    : PropConfig;
+    : PropConfig | ComputedConfig<any>;
 };
 
 export type HTMLProps<T> = Omit<Partial<T>, 'style'> & {
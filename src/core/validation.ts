@@ -0,0 +1,56 @@
+import type { PropConfig, PropType } from './types.ts';
+
+function matchesType(type: PropType, value: unknown): boolean {
+  switch (type) {
+    case String:
+      return typeof value === 'string';
+    case Number:
+      return typeof value === 'number';
+    case Boolean:
+      return typeof value === 'boolean';
+    case Array:
+      return Array.isArray(value);
+    case Object:
+      return typeof value === 'object';
+    case Function:
+      return typeof value === 'function';
+    default:
+      return true;
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'Array';
+  if (typeof value === 'string') return `String ${JSON.stringify(value)}`;
+  if (typeof value === 'object') return (value as object).constructor?.name ?? 'Object';
+  const type = typeof value;
+  return `${type.charAt(0).toUpperCase()}${type.slice(1)} ${String(value)}`;
+}
+
+/**
+ * Validate a prop value against its config.
+ * Returns a description of the problem, or null if the value is valid.
+ *
+ * - `required` props must not be null or undefined
+ * - other null or undefined values are always accepted
+ * - `type` is checked against the runtime type of the value
+ * - `validate` may return false or an error message to reject the value
+ */
+export function validateProp(config: PropConfig, value: unknown): string | null {
+  if (value == null) {
+    return config.required ? `is required but got ${value === null ? 'null' : 'undefined'}` : null;
+  }
+
+  if (config.type && !matchesType(config.type, value)) {
+    return `expected ${config.type.name}, got ${describeValue(value)}`;
+  }
+
+  if (config.validate) {
+    const result = config.validate(value);
+    if (result === false) return `failed validation with value ${describeValue(value)}`;
+    if (typeof result === 'string') return result;
+  }
+
+  return null;
+}
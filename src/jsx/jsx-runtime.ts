@@ -29,6 +29,10 @@ export function jsx(
     const { children, ...rest } = props;
     const componentProps: any = { ...rest };
 
+    if (key !== undefined) {
+      componentProps.key = key;
+    }
+
     if (children !== undefined) {
       // Flatten children to support Fragments and nested arrays
       componentProps.content = Array.isArray(children) ? children.flat(Infinity) : children;
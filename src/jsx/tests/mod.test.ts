@@ -216,6 +216,32 @@ Deno.test({
       assertEquals(data.textContent, 'Content');
     });
 
+    await t.step('jsx: passes key to the element', async () => {
+      await loadTestPage(ctx.page, {
+        code: `
+          import { jsx } from "./src/jsx/jsx-runtime.ts";
+          import { PROPS_CONTROLLER } from "./src/core/mod.ts";
+
+          class TestElement extends HTMLPropsMixin(HTMLElement, {}) {}
+          TestElement.define('jsx-test-key');
+
+          const result = jsx(TestElement, { children: 'Item' }, 'item-1') as any;
+          document.body.appendChild(result);
+
+          (window as any).key = result[PROPS_CONTROLLER].key;
+          (window as any).hasAttribute = result.hasAttribute('key');
+        `,
+      });
+
+      const data = await ctx.page.evaluate(() => ({
+        key: (window as any).key,
+        hasAttribute: (window as any).hasAttribute,
+      }));
+
+      assertEquals(data.key, 'item-1');
+      assertEquals(data.hasAttribute, false);
+    });
+
     await t.step('jsx: uses Fragment component to return children array', async () => {
       await loadTestPage(ctx.page, {
         code: `
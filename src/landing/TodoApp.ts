@@ -63,12 +63,9 @@ export class App extends HTMLPropsMixin(HTMLElement) {
             content: [
               new Input({
                 placeholder: 'Mitä pitäisi tehdä?',
-                value: this.inputText(),
+                bind: this.inputText,
                 name: 'todo-input',
                 id: 'todo-input',
-                oninput: (e: any) => {
-                  this.inputText.set(e.target.value);
-                },
                 onkeydown: (e: KeyboardEvent) => {
                   if (e.key === 'Enter') {
                     this.addTodo();
@@ -51,6 +51,9 @@ const pendingEffects = new Set<() => void>();
 let isBatching = false;
 const runEffects = new Set<() => void>();
 let notifyDepth = 0;
+/** Set by observeReads() while its function runs */
+let readObserver: { effect: RunningEffect | undefined; onRead: (signal: ReadonlySignal<unknown>) => void } | null =
+  null;
 
 function subscribe(running: RunningEffect, subscriptions: Set<() => void>) {
   subscriptions.add(running.execute);
@@ -69,7 +72,10 @@ export function signal<T>(initialValue: T): Signal<T> {
 
   const get = (): T => {
     const running = context[context.length - 1];
-    if (running) subscribe(running, subscriptions);
+    if (running) {
+      subscribe(running, subscriptions);
+      if (readObserver?.effect === running) readObserver.onRead(fn);
+    }
     return value;
   };
 
@@ -248,6 +254,24 @@ export function untracked<T>(fnOrSignal: (() => T) | Signal<T>): T {
   }
 }
 
+/**
+ * Runs a function inside an effect and reports every signal it subscribes the effect to.
+ * Reads in nested effects and untracked code are not reported. Intended for developer tools.
+ * @template T
+ * @param {() => T} fn - The function to run, typically the body of an effect.
+ * @param {(signal: ReadonlySignal<unknown>) => void} onRead - Called for each tracked read.
+ * @returns {T} The result of the function.
+ */
+export function observeReads<T>(fn: () => T, onRead: (signal: ReadonlySignal<unknown>) => void): T {
+  const prevObserver = readObserver;
+  readObserver = { effect: context[context.length - 1], onRead };
+  try {
+    return fn();
+  } finally {
+    readObserver = prevObserver;
+  }
+}
+
 /**
  * Returns a read-only version of a signal.
  * @template T
@@ -257,5 +281,15 @@ export function untracked<T>(fnOrSignal: (() => T) | Signal<T>): T {
 export function readonly<T>(sig: Signal<T>): ReadonlySignal<T> {
   const fn = () => sig();
   fn.get = () => sig.get();
+  (fn as any)[SIGNAL_BRAND] = true;
   return fn;
 }
+
+/**
+ * Checks whether a value is a signal, including computed and read-only signals.
+ * @param {unknown} value - The value to check.
+ * @returns {boolean} True for signals, false for plain functions and other values.
+ */
+export function isSignal(value: unknown): value is ReadonlySignal<unknown> {
+  return typeof value === 'function' && (value as any)[SIGNAL_BRAND] === true;
+}
@@ -289,6 +289,34 @@ Deno.test({
       assertEquals(result.untrackedValue, 2);
     });
 
+    await t.step('observeReads: reports the signals an effect subscribes to', async () => {
+      await ctx.page.reload();
+      await loadTestPage(ctx.page, {
+        code: `
+          import { observeReads } from "./src/signals/mod.ts";
+
+          const a = signal(1);
+          const b = signal(2);
+          const c = signal(3);
+          const reads: unknown[] = [];
+          effect(() => {
+            observeReads(() => {
+              a();
+              untracked(() => b());
+              effect(() => c());
+              a();
+            }, (s) => reads.push(s === a ? "a" : s === b ? "b" : "c"));
+          });
+
+          (window as any).result = { reads, outside: observeReads(() => a(), () => reads.push("outside")) };
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result.reads, ['a', 'a']);
+      assertEquals(result.outside, 1);
+    });
+
     await t.step('readonly: cannot set', async () => {
       await ctx.page.reload();
       await loadTestPage(ctx.page, {
@@ -307,6 +335,21 @@ Deno.test({
       assertEquals(result.hasSet, false);
     });
 
+    await t.step('isSignal: detects signals, computed and readonly signals', async () => {
+      await ctx.page.reload();
+      await loadTestPage(ctx.page, {
+        code: `
+          import { isSignal } from "./src/signals/mod.ts";
+
+          const s = signal(1);
+          (window as any).result = [s, computed(() => s()), readonly(s), () => s(), 1].map(isSignal);
+        `,
+      });
+
+      const result = await ctx.page.evaluate(() => (window as any).result);
+      assertEquals(result, [true, true, true, false, false]);
+    });
+
     // Teardown
     await teardownBrowser(ctx);
   },